@@ -0,0 +1,73 @@
+// Keeps the MediaDrop app itself available offline. Only the page, its
+// scripts, styles and icons are cached; downloaded media, proxied requests
+// and range requests always go straight to the network.
+
+// Filled in with the build's version and hashed files by vite.config.ts, so
+// each build gets its own cache and works offline from the first launch.
+const BUILD = { version: 'dev', assets: [] };
+
+const CACHE = `mediadrop-${BUILD.version}`;
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png', ...BUILD.assets];
+// Request destinations that make up the app rather than what it downloads.
+const APP_DESTINATIONS = ['document', 'script', 'style', 'worker', 'manifest', 'font'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(CACHE)
+      .then(cache => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isAppRequest = (request, url) =>
+  request.method === 'GET'
+  && url.origin === self.location.origin
+  && !url.pathname.startsWith('/proxy')
+  && !request.headers.has('range')
+  && (APP_DESTINATIONS.includes(request.destination) || SHELL.includes(url.pathname));
+
+const store = (key, response) => {
+  if (response.ok && response.type === 'basic') {
+    const copy = response.clone();
+    caches.open(CACHE).then(cache => cache.put(key, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (!isAppRequest(request, url)) return;
+
+  if (request.mode === 'navigate') {
+    // Fresh when online, so a new build is picked up; the cached page otherwise.
+    // Launch and share parameters are read by the page, so every URL maps to "/".
+    event.respondWith(
+      fetch(request)
+        .then(response => store('/', response))
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Built assets have hashed names, so a cached copy is never stale.
+  event.respondWith(
+    caches.match(request).then(cached => cached || fetch(request).then(response => store(request, response)))
+  );
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+      .then(clients => (clients[0] ? clients[0].focus() : self.clients.openWindow('/')))
+  );
+});
@@ -0,0 +1,24 @@
+import { createServer } from 'node:http';
+import { createProxyHandler, loadProxyConfig, proxyConfigPath } from './proxy';
+
+// Standalone entry for `npm run proxy`. Listens on localhost only unless HOST
+// says otherwise.
+const configPath = proxyConfigPath();
+const config = loadProxyConfig(configPath);
+const port = Number(process.env.PORT) || 8787;
+const host = process.env.HOST || '127.0.0.1';
+
+const handle = createProxyHandler(config);
+
+createServer((req, res) => {
+  if (!req.url?.startsWith('/proxy')) {
+    res.writeHead(404).end();
+    return;
+  }
+  handle(req, res);
+}).listen(port, host, () => {
+  console.log(`MediaDrop proxy listening on http://${host}:${port}/proxy`);
+  console.log(`Allowed hosts: ${config.allowHosts.join(', ') || 'none'}${configPath ? ` (from ${configPath})` : ''}`);
+  console.log(`Allowed origins: ${config.allowOrigins.join(', ') || 'none'}`);
+  if (config.serverNames.length > 0) console.log(`Also answers to: ${config.serverNames.join(', ')}`);
+});
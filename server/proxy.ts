@@ -0,0 +1,301 @@
+import { existsSync, readFileSync } from 'node:fs';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+
+/** Extra request headers for one host, e.g. a session cookie or an API token. */
+export interface HostRule {
+  /** Exact hostname, or `*.example.com` for it and its subdomains. */
+  host: string;
+  headers?: Record<string, string>;
+  cookie?: string;
+}
+
+export interface ProxyConfig {
+  /** Hosts the proxy will fetch from; `*` allows any public host. Empty until configured. */
+  allowHosts: string[];
+  /**
+   * Pages that may read proxied responses, e.g. `http://localhost:5173`.
+   * Requests from the proxy's own origin are always allowed; any other
+   * origin is refused, since responses can carry the configured credentials.
+   */
+  allowOrigins: string[];
+  /**
+   * Names the proxy may be reached by as `host:port`, besides localhost,
+   * 127.0.0.1 and [::1] on the port it listens on, e.g. `nas.lan:8787`.
+   */
+  serverNames: string[];
+  rules: HostRule[];
+  /** Responses larger than this are refused or cut off. 0 for no limit. */
+  maxBytes: number;
+  /** Upstream gives up if it hasn't answered within this many milliseconds. */
+  timeoutMs: number;
+  /** Lets the proxy reach localhost and private networks. Off by default. */
+  allowPrivate: boolean;
+}
+
+export const DEFAULT_PROXY_CONFIG: ProxyConfig = {
+  allowHosts: [],
+  // Where `npm run dev` and `npm run preview` serve the app by default.
+  allowOrigins: ['http://localhost:5173', 'http://127.0.0.1:5173', 'http://localhost:4173', 'http://127.0.0.1:4173'],
+  serverNames: [],
+  rules: [],
+  maxBytes: 4 * 1024 ** 3,
+  timeoutMs: 30_000,
+  allowPrivate: false,
+};
+
+const MAX_REDIRECTS = 5;
+
+// Request headers worth passing upstream; everything else (cookies for this
+// origin, the browser's Origin) stays behind.
+const FORWARDED_REQUEST_HEADERS = ['range', 'if-range', 'accept', 'user-agent'];
+
+// Response headers the frontend reads, exposed to it across origins.
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-range',
+  'accept-ranges',
+  'content-disposition',
+  'content-md5',
+  'etag',
+  'last-modified',
+];
+
+// The frontend (src/lib/proxy.ts) looks for these to tell proxy answers apart
+// from whatever else might be listening at the proxy URL.
+export const FINAL_URL_HEADER = 'x-mediadrop-final-url';
+export const PROXY_ERROR_HEADER = 'x-mediadrop-proxy-error';
+
+const DEFAULT_CONFIG_FILE = 'mediadrop-proxy.json';
+
+/** Where the config lives: MEDIADROP_PROXY_CONFIG, else ./mediadrop-proxy.json if present. */
+export const proxyConfigPath = (): string | undefined =>
+  process.env.MEDIADROP_PROXY_CONFIG ?? (existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+
+export const loadProxyConfig = (path = proxyConfigPath()): ProxyConfig => {
+  if (!path) return DEFAULT_PROXY_CONFIG;
+  const raw = JSON.parse(readFileSync(path, 'utf8')) as Partial<ProxyConfig>;
+  return { ...DEFAULT_PROXY_CONFIG, ...raw };
+};
+
+const hostMatches = (pattern: string, host: string) => {
+  const wanted = pattern.toLowerCase();
+  if (wanted === '*') return true;
+  if (wanted.startsWith('*.')) return host === wanted.slice(2) || host.endsWith(wanted.slice(1));
+  return host === wanted;
+};
+
+// Only catches literal addresses and obvious names; a hostname that resolves
+// to a private address still gets through unless the allowlist excludes it.
+const isPrivateHost = (host: string) =>
+  host === 'localhost' ||
+  host.endsWith('.localhost') ||
+  host.endsWith('.local') ||
+  /^(127|10|0)\./.test(host) ||
+  /^192\.168\./.test(host) ||
+  /^169\.254\./.test(host) ||
+  /^172\.(1[6-9]|2\d|3[01])\./.test(host) ||
+  /^\[?(::1?|f[cd][0-9a-f]{2}:.*|fe80:.*)\]?$/i.test(host);
+
+/** Returns why `url` may not be fetched, or null if it may. */
+export const checkTarget = (url: URL, config: ProxyConfig): string | null => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'Only http and https URLs can be proxied';
+  const host = url.hostname.toLowerCase();
+  if (!config.allowPrivate && isPrivateHost(host)) return `${host} is a private address`;
+  if (!config.allowHosts.some(pattern => hostMatches(pattern, host))) {
+    return `${host} is not in the proxy's allowHosts`;
+  }
+  return null;
+};
+
+const LOOPBACK_NAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Whether the Host header names this server. A DNS-rebinding page reaches the
+ * proxy under its own hostname, so without this check it would pass for the
+ * proxy's own origin and get the configured credentials.
+ */
+export const isServerName = (req: IncomingMessage, config: ProxyConfig): boolean => {
+  const host = req.headers.host?.toLowerCase();
+  if (!host) return false;
+  if (config.serverNames.some(name => name.toLowerCase() === host)) return true;
+  const port = req.socket.localPort;
+  return LOOPBACK_NAMES.some(name => host === `${name}:${port}` || (port === 80 && host === name));
+};
+
+/**
+ * The origin to allow in CORS headers: the caller's, if it may read proxied
+ * responses. Undefined for same-origin and non-browser requests, which need
+ * no CORS headers; null when the caller must be refused.
+ */
+export const allowedOrigin = (req: IncomingMessage, config: ProxyConfig): string | null | undefined => {
+  const origin = req.headers.origin;
+  if (!origin) {
+    // Browsers leave Origin off same-origin GETs but also off cross-site
+    // embeds like <img> and <video>; Fetch Metadata tells those apart.
+    return req.headers['sec-fetch-site'] === 'cross-site' ? null : undefined;
+  }
+  let host: string;
+  try {
+    host = new URL(origin).host;
+  } catch {
+    return null;
+  }
+  if (host === req.headers.host || config.allowOrigins.includes(origin)) return origin;
+  return null;
+};
+
+const corsHeaders = (origin: string | undefined): Record<string, string> =>
+  origin ? { 'access-control-allow-origin': origin, vary: 'origin' } : { vary: 'origin' };
+
+const upstreamHeaders = (req: IncomingMessage, url: URL, config: ProxyConfig) => {
+  // Ask for the bytes as stored so ranges and checksums line up.
+  const headers: Record<string, string> = { 'accept-encoding': 'identity' };
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === 'string') headers[name] = value;
+  }
+  const host = url.hostname.toLowerCase();
+  for (const rule of config.rules) {
+    if (!hostMatches(rule.host, host)) continue;
+    Object.assign(headers, rule.headers);
+    if (rule.cookie) headers.cookie = rule.cookie;
+  }
+  return headers;
+};
+
+const sendError = (res: ServerResponse, status: number, message: string, origin?: string) => {
+  res.writeHead(status, {
+    'content-type': 'text/plain; charset=utf-8',
+    ...corsHeaders(origin),
+    'access-control-expose-headers': PROXY_ERROR_HEADER,
+    [PROXY_ERROR_HEADER]: '1',
+  });
+  res.end(message);
+};
+
+// Follows redirects by hand so every hop is checked against the allowlist.
+const fetchUpstream = async (req: IncomingMessage, target: URL, config: ProxyConfig, signal: AbortSignal) => {
+  let url = target;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const refused = checkTarget(url, config);
+    if (refused) return { refused };
+    const response = await fetch(url, {
+      headers: upstreamHeaders(req, url, config),
+      redirect: 'manual',
+      signal,
+    });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return { response, url };
+    await response.body?.cancel();
+    url = new URL(location, url);
+  }
+  return { refused: 'Too many redirects' };
+};
+
+/**
+ * Handles `GET <mount>?url=…` by fetching the URL server-side and streaming
+ * the body back, readable only by the proxy's own origin and `allowOrigins`.
+ * `GET <mount>/health` answers with 200 so the frontend can tell the proxy
+ * is there.
+ */
+export const createProxyHandler = (config: ProxyConfig) =>
+  async (req: IncomingMessage, res: ServerResponse) => {
+    const requestUrl = new URL(req.url || '/', 'http://proxy.invalid');
+
+    if (!isServerName(req, config)) {
+      res.writeHead(403, { 'content-type': 'text/plain; charset=utf-8' });
+      res.end(`${req.headers.host || 'This host'} is not one of this proxy's names; add it to serverNames`);
+      return;
+    }
+
+    const origin = allowedOrigin(req, config);
+    if (origin === null) {
+      res.writeHead(403, { 'content-type': 'text/plain; charset=utf-8', vary: 'origin' });
+      res.end(`${req.headers.origin || 'This site'} may not use this proxy; add it to allowOrigins`);
+      return;
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        ...corsHeaders(origin),
+        'access-control-allow-methods': 'GET, OPTIONS',
+        'access-control-allow-headers': 'range, if-range',
+        'access-control-max-age': '86400',
+      });
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET') return sendError(res, 405, 'Only GET is supported', origin);
+    if (requestUrl.pathname.endsWith('/health')) {
+      res.writeHead(200, { 'content-type': 'application/json', ...corsHeaders(origin) });
+      res.end(JSON.stringify({ ok: true, maxBytes: config.maxBytes }));
+      return;
+    }
+
+    let target: URL;
+    try {
+      target = new URL(requestUrl.searchParams.get('url') || '');
+    } catch {
+      return sendError(res, 400, 'Missing or invalid ?url=', origin);
+    }
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, config.timeoutMs);
+    res.on('close', () => controller.abort());
+
+    try {
+      const result = await fetchUpstream(req, target, config, controller.signal);
+      clearTimeout(timer);
+      if (!result.response) return sendError(res, 403, result.refused, origin);
+      const { response, url } = result;
+
+      const length = Number(response.headers.get('content-length'));
+      if (config.maxBytes > 0 && length > config.maxBytes) {
+        await response.body?.cancel();
+        return sendError(res, 413, `Response is larger than the proxy's ${config.maxBytes}-byte limit`, origin);
+      }
+
+      const headers: Record<string, string> = {
+        ...corsHeaders(origin),
+        'access-control-expose-headers': [...FORWARDED_RESPONSE_HEADERS, FINAL_URL_HEADER].join(', '),
+        [FINAL_URL_HEADER]: url.toString(),
+      };
+      for (const name of FORWARDED_RESPONSE_HEADERS) {
+        const value = response.headers.get(name);
+        if (value !== null) headers[name] = value;
+      }
+      // Node's fetch has already decoded the body, so anything describing the
+      // encoded bytes (length, offsets, MD5, a strong ETag) no longer holds.
+      const encoding = response.headers.get('content-encoding');
+      if (encoding && encoding !== 'identity') {
+        for (const name of ['content-length', 'content-range', 'accept-ranges', 'content-md5']) delete headers[name];
+        if (headers.etag && !headers.etag.startsWith('W/')) headers.etag = `W/${headers.etag}`;
+      }
+      res.writeHead(response.status, response.statusText, headers);
+
+      if (!response.body) return void res.end();
+      let sent = 0;
+      const body = Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+      body.on('data', (chunk: Buffer) => {
+        sent += chunk.length;
+        if (config.maxBytes > 0 && sent > config.maxBytes) {
+          // Headers are already out; cutting the connection is all we can do.
+          body.destroy();
+          res.destroy();
+        }
+      });
+      body.on('error', () => res.destroy());
+      body.pipe(res);
+    } catch (error) {
+      clearTimeout(timer);
+      if (res.headersSent) return void res.destroy();
+      sendError(res, timedOut ? 504 : 502, error instanceof Error ? error.message : String(error), origin);
+    }
+  };
@@ -1,24 +1,46 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { Download, Plus, X, ExternalLink, FileImage, FileVideo, Copy, Check, Trash2, Eye, Clock } from 'lucide-react';
-
-interface MediaItem {
-  id: string;
-  url: string;
-  type: 'image' | 'video';
-  filename: string;
-  size?: string;
-  status: 'pending' | 'downloading' | 'completed' | 'error';
-  progress?: number;
-  downloadUrl?: string;
-}
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { Download, Plus, X, ExternalLink, FileImage, FileVideo, FileAudio, Copy, Check, Trash2, Eye, Clock, Pause, Play, RotateCcw, Square, Upload, Loader, FileArchive, Settings as SettingsIcon, Layers, Keyboard, Link, FileJson } from 'lucide-react';
+import type { DownloadHistory, MediaItem, MediaStatus } from './types';
+import { getMediaType } from './lib/media';
+import { createId } from './lib/id';
+import { extractFromFiles, extractUrls, isHttpUrl, normalizeUrl, type ImportCandidate } from './lib/importer';
+import { bundleToZip } from './lib/bundle';
+import { openSaveStream } from './lib/fileSystem';
+import { saveBlob } from './lib/download';
+import { dedupeFilename, renderFilename, sanitizeFilename, takenFilenames } from './lib/filename';
+import { needsResolving, resolveMedia, type Resolution } from './lib/resolver';
+import { applyRetention, mergeHistory } from './lib/history';
+import { createProxyFetch } from './lib/proxy';
+import { outputExtension, outputFilename, outputFor, type ImageOutput } from './lib/imageOutput';
+import { isPresetFile, parsePreset, presetFromHash, presetFromQueue, presetLink, presetToJson, withoutPreset, type PresetItem, type QueuePreset } from './lib/preset';
+import { queueTotals } from './lib/progress';
+import { formatBytes, formatDuration } from './lib/format';
+import type { ShortcutAction } from './lib/shortcuts';
+import { launchContent, requestNotificationPermission, withoutLaunchParams } from './lib/pwa';
+import type { StreamVariant } from './lib/stream';
+import MediaTypeIcon from './components/MediaTypeIcon';
+import FilenameEditor from './components/FilenameEditor';
+import ChecksumField from './components/ChecksumField';
+import ImageOutputField from './components/ImageOutputField';
+import FailureDetails from './components/FailureDetails';
+import SettingsPanel from './components/SettingsPanel';
+import StreamVariantPicker from './components/StreamVariantPicker';
+import ImportPreview from './components/ImportPreview';
+import PresetPrompt from './components/PresetPrompt';
+import HistoryPanel from './components/HistoryPanel';
+import Lightbox from './components/Lightbox';
+import SelectionBar from './components/SelectionBar';
+import ShortcutHelp from './components/ShortcutHelp';
+import { usePersistence } from './hooks/usePersistence';
+import { useSettings } from './hooks/useSettings';
+import { useDownloadQueue, type DownloadOutcome } from './hooks/useDownloadQueue';
+import { useSaveDirectory } from './hooks/useSaveDirectory';
+import { useSelection } from './hooks/useSelection';
+import { useShortcuts } from './hooks/useShortcuts';
+import { LONG_QUEUE_ITEMS, useQueueNotifications } from './hooks/useQueueNotifications';
 
-interface DownloadHistory {
-  id: string;
-  filename: string;
-  url: string;
-  type: 'image' | 'video';
-  downloadedAt: Date;
-}
+// Items in these states haven't been saved, so their name and settings can change.
+const EDITABLE_STATUSES: MediaStatus[] = ['pending', 'paused', 'error', 'cancelled', 'mismatch'];
 
 function App() {
   const [mediaItems, setMediaItems] = useState<MediaItem[]>([]);
@@ -26,61 +48,335 @@ function App() {
   const [isProcessing, setIsProcessing] = useState(false);
   const [downloadHistory, setDownloadHistory] = useState<DownloadHistory[]>([]);
   const [showHistory, setShowHistory] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const [dragActive, setDragActive] = useState(false);
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
+  const [importCandidates, setImportCandidates] = useState<ImportCandidate[] | null>(null);
+  const [streamChoice, setStreamChoice] = useState<(Extract<Resolution, { kind: 'stream' }> & { itemId?: string }) | null>(null);
+  const [bundleProgress, setBundleProgress] = useState<{ done: number; total: number; current: string } | null>(null);
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [presetImport, setPresetImport] = useState<{ source: string; preset?: QueuePreset; error?: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const bundleController = useRef<AbortController | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const [settings, updateSettings] = useSettings();
+  const saveDirectory = useSaveDirectory();
+  const proxyFetch = useMemo(
+    () => createProxyFetch(settings.proxyMode, settings.proxyUrl),
+    [settings.proxyMode, settings.proxyUrl]
+  );
+
+  usePersistence(mediaItems, setMediaItems, downloadHistory, setDownloadHistory);
+
+  // Entries from a preset can carry their own name and settings; `imageOutput`
+  // is the queue-wide output to name images by.
+  const addMediaItems = useCallback((entries: (string | PresetItem)[], imageOutput = settings.imageOutput) => {
+    setMediaItems(prev => {
+      const known = new Set(prev.map(item => normalizeUrl(item.url)));
+      const taken = takenFilenames(prev);
+      const added: MediaItem[] = [];
+      const addedAt = Date.now();
+
+      entries.forEach(entry => {
+        const { url, filename: customName, ...overrides } = typeof entry === 'string' ? { url: entry } : entry;
+        const trimmedUrl = url.trim();
+        const key = normalizeUrl(trimmedUrl);
+        if (!trimmedUrl || known.has(key)) return;
+        known.add(key);
+        const type = getMediaType(trimmedUrl);
+        const filename = customName ? sanitizeFilename(customName) : renderFilename(settings.filenameTemplate, {
+          url: trimmedUrl,
+          type,
+          extension: type === 'image' ? outputExtension(outputFor(overrides, imageOutput)) : undefined,
+          index: prev.length + added.length + 1,
+          date: new Date(addedAt)
+        });
+        added.push({
+          ...overrides,
+          id: createId(),
+          url: trimmedUrl,
+          type,
+          filename: dedupeFilename(filename, taken),
+          addedAt,
+          filenameEdited: customName ? true : undefined,
+          status: 'pending'
+        });
+      });
+
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  }, [settings.filenameTemplate, settings.imageOutput]);
 
-  const getFileExtension = (url: string): string => {
-    const path = new URL(url).pathname;
-    return path.split('.').pop()?.toLowerCase() || '';
+  const renameMediaItem = (id: string, filename: string) => {
+    setMediaItems(prev => prev.map(item =>
+      item.id === id
+        ? { ...item, filename: dedupeFilename(sanitizeFilename(filename), takenFilenames(prev, id)), filenameEdited: true }
+        : item
+    ));
+  };
+
+  // Re-renders names for items that haven't started and weren't renamed by hand.
+  const applyFilenameTemplate = (template: string) => {
+    setMediaItems(prev => {
+      const taken = takenFilenames(prev.filter(item => item.filenameEdited || item.status !== 'pending'));
+      return prev.map((item, index) => {
+        if (item.filenameEdited || item.status !== 'pending') return item;
+        const filename = renderFilename(template, {
+          url: item.url,
+          type: item.type,
+          extension: item.type === 'image' ? outputExtension(outputFor(item, settings.imageOutput)) : undefined,
+          index: index + 1,
+          date: item.addedAt === undefined ? undefined : new Date(item.addedAt),
+        });
+        return { ...item, filename: dedupeFilename(filename, taken) };
+      });
+    });
   };
 
-  const getMediaType = (url: string): 'image' | 'video' => {
-    const ext = getFileExtension(url);
-    const imageExts = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp'];
-    const videoExts = ['mp4', 'webm', 'avi', 'mov', 'wmv', 'flv', 'mkv'];
-    
-    if (imageExts.includes(ext)) return 'image';
-    if (videoExts.includes(ext)) return 'video';
-    
-    // Default to image if uncertain
-    return 'image';
+  // Gives the affected images the extension their new output format needs.
+  const changeImageOutput = (imageOutput: ImageOutput) => {
+    updateSettings({ imageOutput });
+    setMediaItems(prev => prev.map(item => {
+      if (item.type !== 'image' || item.imageOutput || !EDITABLE_STATUSES.includes(item.status)) return item;
+      const filename = outputFilename(item, imageOutput);
+      return filename === item.filename
+        ? item
+        : { ...item, filename: dedupeFilename(filename, takenFilenames(prev, item.id)) };
+    }));
   };
 
-  const generateFilename = (url: string): string => {
+  const setItemImageOutput = (id: string, imageOutput: ImageOutput | undefined) => {
+    setMediaItems(prev => prev.map(item => {
+      if (item.id !== id) return item;
+      const filename = outputFilename(item, imageOutput ?? settings.imageOutput);
+      return {
+        ...item,
+        imageOutput,
+        filename: filename === item.filename ? filename : dedupeFilename(filename, takenFilenames(prev, id)),
+      };
+    }));
+  };
+
+  const addMediaItem = useCallback((url: string) => addMediaItems([url]), [addMediaItems]);
+
+  // Puts a history entry back in the queue, reusing its queue item if it's
+  // still there and finished.
+  const requeueHistoryEntry = (entry: DownloadHistory) => {
+    if (!isHttpUrl(entry.url)) return;
+    const key = normalizeUrl(entry.url);
+    setMediaItems(prev => {
+      const existing = prev.find(item => normalizeUrl(item.url) === key);
+      if (!existing) {
+        return [...prev, {
+          id: createId(),
+          url: entry.url,
+          type: entry.type,
+          filename: dedupeFilename(entry.filename, takenFilenames(prev)),
+          addedAt: Date.now(),
+          status: 'pending',
+          stream: entry.stream
+        }];
+      }
+      if (!['completed', 'error', 'cancelled', 'mismatch'].includes(existing.status)) return prev;
+      return prev.map(item => item.id === existing.id
+        ? {
+          ...item,
+          status: 'pending',
+          stream: item.stream ?? entry.stream,
+          progress: 0,
+          received: undefined,
+          speed: undefined,
+          eta: undefined,
+          attempts: undefined,
+          nextRetryAt: undefined,
+          sha256: undefined,
+          duplicateOf: undefined,
+          checksumWarning: undefined,
+          failure: undefined
+        }
+        : item
+      );
+    });
+  };
+
+  const totals = useMemo(() => queueTotals(mediaItems), [mediaItems]);
+
+  const queuedUrls = useMemo(
+    () => new Set(mediaItems.map(item => normalizeUrl(item.url))),
+    [mediaItems]
+  );
+
+  // Expands a manifest into a quality choice and a page into its media. With
+  // `itemId`, the expansion replaces that queue item; otherwise a URL that
+  // turns out to be a plain file (or can't be fetched) is queued as is.
+  const expandUrl = async (url: string, itemId?: string) => {
+    setIsProcessing(true);
     try {
-      const urlObj = new URL(url);
-      const path = urlObj.pathname;
-      const filename = path.split('/').pop() || 'download';
-      return filename.includes('.') ? filename : `${filename}.${getFileExtension(url)}`;
-    } catch {
-      return `download_${Date.now()}.${getFileExtension(url)}`;
+      const resolution = await resolveMedia(url, { fetch: proxyFetch });
+      if (resolution.kind === 'stream') {
+        setStreamChoice({ ...resolution, itemId });
+      } else if (resolution.kind === 'page' && resolution.candidates.length > 0) {
+        if (itemId) removeMediaItem(itemId);
+        setImportCandidates(resolution.candidates);
+      } else if (!itemId) {
+        addMediaItem(url);
+      }
+    } catch (err) {
+      console.error('Failed to expand URL:', err);
+      if (!itemId) addMediaItem(url);
+    } finally {
+      setIsProcessing(false);
     }
   };
 
-  const addMediaItem = useCallback((url: string) => {
-    const trimmedUrl = url.trim();
-    if (!trimmedUrl || mediaItems.some(item => item.url === trimmedUrl)) return;
+  const addSingleUrl = (url: string) => {
+    if (needsResolving(url.trim())) {
+      expandUrl(url.trim());
+    } else {
+      addMediaItem(url);
+    }
+  };
 
-    const newItem: MediaItem = {
-      id: Date.now().toString(),
-      url: trimmedUrl,
-      type: getMediaType(trimmedUrl),
-      filename: generateFilename(trimmedUrl),
-      status: 'pending'
-    };
+  const confirmStream = (variant: StreamVariant) => {
+    if (!streamChoice) return;
+    const { format, manifestUrl, itemId } = streamChoice;
+    const stream = { format, manifestUrl, variantId: variant.id, label: variant.label };
+    setStreamChoice(null);
 
-    setMediaItems(prev => [...prev, newItem]);
-  }, [mediaItems]);
+    setMediaItems(prev => {
+      const existing = itemId ? prev.find(item => item.id === itemId) : undefined;
+      if (!existing && prev.some(item => normalizeUrl(item.url) === normalizeUrl(manifestUrl))) return prev;
+
+      const index = existing ? prev.indexOf(existing) + 1 : prev.length + 1;
+      const addedAt = existing?.addedAt ?? Date.now();
+      const filename = dedupeFilename(
+        renderFilename(settings.filenameTemplate, {
+          url: manifestUrl,
+          type: variant.kind,
+          extension: variant.extension,
+          index,
+          date: new Date(addedAt)
+        }),
+        takenFilenames(prev, itemId)
+      );
+      const item: MediaItem = {
+        id: existing?.id ?? createId(),
+        url: existing?.url ?? manifestUrl,
+        type: variant.kind,
+        filename,
+        addedAt,
+        status: 'pending',
+        stream
+      };
+      return existing ? prev.map(i => (i.id === itemId ? item : i)) : [...prev, item];
+    });
+  };
+
+  // A single URL goes straight into the queue; anything more gets a preview.
+  const importCandidatesFound = (candidates: ImportCandidate[]) => {
+    if (candidates.length === 0) return;
+    if (candidates.length === 1) {
+      addSingleUrl(candidates[0].url);
+      return;
+    }
+    setImportCandidates(candidates);
+  };
+
+  const importFiles = async (files: File[]) => {
+    if (files.length === 1 && isPresetFile(files[0])) {
+      importPresetFile(files[0]);
+      return;
+    }
+    setIsProcessing(true);
+    try {
+      importCandidatesFound(await extractFromFiles(files));
+    } catch (err) {
+      console.error('Failed to read dropped files:', err);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const confirmImport = (urls: string[]) => {
+    addMediaItems(urls);
+    setImportCandidates(null);
+  };
+
+  const importPresetFile = async (file: File) => {
+    try {
+      setPresetImport({ source: file.name, preset: parsePreset(JSON.parse(await file.text())) });
+    } catch (err) {
+      setPresetImport({ source: file.name, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  // Opened from the share sheet or a ?url= link: queue what was passed in.
+  // The parameters are dropped first so a reload doesn't add them again.
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    const content = launchContent(search);
+    if (!content) return;
+    window.history.replaceState(null, '', `${pathname}${withoutLaunchParams(search)}${hash}`);
+    importCandidatesFound(extractUrls(content));
+    // Only on launch; later renders have nothing new to read.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // A shared link carries its queue in the fragment; ask before adding it.
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    const clearHash = () => window.history.replaceState(null, '', `${pathname}${search}${withoutPreset(hash)}`);
+    presetFromHash(hash)
+      .then(preset => {
+        if (!preset) return;
+        clearHash();
+        setPresetImport({ source: 'a shared link', preset });
+      })
+      .catch(err => {
+        clearHash();
+        setPresetImport({ source: 'a shared link', error: err instanceof Error ? err.message : String(err) });
+      });
+  }, []);
+
+  const confirmPreset = (useOutputSettings: boolean) => {
+    const preset = presetImport?.preset;
+    setPresetImport(null);
+    if (!preset) return;
+    if (useOutputSettings) {
+      if (preset.imageOutput) changeImageOutput(preset.imageOutput);
+      if (preset.stripMetadata !== undefined) updateSettings({ stripMetadata: preset.stripMetadata });
+    }
+    addMediaItems(preset.items, useOutputSettings ? preset.imageOutput : undefined);
+  };
+
+  const exportPreset = () => {
+    const json = presetToJson(presetFromQueue(mediaItems, settings));
+    saveBlob(new Blob([json], { type: 'application/json' }), `mediadrop-queue-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const copyShareLink = async () => {
+    try {
+      const base = `${window.location.origin}${window.location.pathname}${window.location.search}`;
+      const link = await presetLink(presetFromQueue(mediaItems, settings), base);
+      setShareLink(link);
+      copyToClipboard(link);
+    } catch (err) {
+      console.error('Failed to build share link:', err);
+    }
+  };
 
   const removeMediaItem = (id: string) => {
+    queue.remove(id);
     setMediaItems(prev => prev.filter(item => item.id !== id));
   };
 
   const handleUrlSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (urlInput.trim()) {
-      addMediaItem(urlInput);
+      addSingleUrl(urlInput);
       setUrlInput('');
     }
   };
@@ -100,18 +396,36 @@ function App() {
     e.stopPropagation();
     setDragActive(false);
 
-    const text = e.dataTransfer.getData('text');
-    if (text && (text.startsWith('http://') || text.startsWith('https://'))) {
-      addMediaItem(text);
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) {
+      importFiles(files);
+      return;
     }
+
+    const content = e.dataTransfer.getData('text/html') || e.dataTransfer.getData('text');
+    if (content) importCandidatesFound(extractUrls(content));
+  };
+
+  const handleInputPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const content = e.clipboardData.getData('text/html') || e.clipboardData.getData('text');
+    const candidates = extractUrls(content);
+    // Let a lone URL paste into the field as usual.
+    if (candidates.length > 1) {
+      e.preventDefault();
+      importCandidatesFound(candidates);
+    }
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length > 0) importFiles(files);
   };
 
   const handlePaste = async () => {
     try {
       const text = await navigator.clipboard.readText();
-      if (text && (text.startsWith('http://') || text.startsWith('https://'))) {
-        addMediaItem(text);
-      }
+      if (text) importCandidatesFound(extractUrls(text));
     } catch (err) {
       console.error('Failed to read clipboard:', err);
     }
@@ -127,79 +441,197 @@ function App() {
     }
   };
 
-  const downloadFile = async (item: MediaItem) => {
-    setMediaItems(prev => prev.map(i => 
-      i.id === item.id ? { ...i, status: 'downloading', progress: 0 } : i
-    ));
+  const addToHistory = useCallback((item: MediaItem, outcome: DownloadOutcome) => {
+    const historyItem: DownloadHistory = {
+      id: createId(),
+      filename: item.filename,
+      url: item.url,
+      type: item.type,
+      downloadedAt: new Date(),
+      stream: item.stream,
+      ...outcome
+    };
+    setDownloadHistory(prev => applyRetention([historyItem, ...prev], settings.historyLimit));
+  }, [settings.historyLimit]);
 
-    try {
-      const response = await fetch(item.url);
-      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
-      
-      const reader = response.body?.getReader();
-      const contentLength = response.headers.get('content-length');
-      const total = contentLength ? parseInt(contentLength, 10) : 0;
-      
-      let received = 0;
-      const chunks: Uint8Array[] = [];
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          
-          chunks.push(value);
-          received += value.length;
-          
-          if (total > 0) {
-            const progress = (received / total) * 100;
-            setMediaItems(prev => prev.map(i => 
-              i.id === item.id ? { ...i, progress } : i
-            ));
-          }
-        }
-      }
+  const changeHistoryLimit = (historyLimit: number) => {
+    updateSettings({ historyLimit });
+    setDownloadHistory(prev => applyRetention(prev, historyLimit));
+  };
 
-      const blob = new Blob(chunks);
-      const downloadUrl = URL.createObjectURL(blob);
-      
-      const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = item.filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      URL.revokeObjectURL(downloadUrl);
-
-      setMediaItems(prev => prev.map(i => 
-        i.id === item.id ? { ...i, status: 'completed', progress: 100 } : i
-      ));
-
-      // Add to history
-      const historyItem: DownloadHistory = {
-        id: Date.now().toString(),
-        filename: item.filename,
-        url: item.url,
-        type: item.type,
-        downloadedAt: new Date()
-      };
-      setDownloadHistory(prev => [historyItem, ...prev.slice(0, 49)]); // Keep last 50 items
+  const importHistory = (entries: DownloadHistory[]) => {
+    setDownloadHistory(prev => applyRetention(mergeHistory(prev, entries), settings.historyLimit));
+  };
+
+  // Prefers history, which knows where the earlier copy was saved.
+  const findDuplicate = (sha256: string, id: string) => {
+    const entry = downloadHistory.find(h => h.sha256 === sha256 && h.savedTo && !h.duplicateOf);
+    if (entry) return { filename: entry.filename, savedTo: entry.savedTo };
+    const item = mediaItems.find(i => i.id !== id && i.sha256 === sha256 && !i.duplicateOf);
+    return item && { filename: item.filename };
+  };
+
+  const setExpectedChecksum = (id: string, expectedChecksum: string | undefined) => {
+    setMediaItems(prev => prev.map(item => (item.id === id ? { ...item, expectedChecksum } : item)));
+  };
+
+  const queue = useDownloadQueue({
+    mediaItems,
+    setMediaItems,
+    settings,
+    directory: saveDirectory.granted ? saveDirectory.directory : null,
+    onFinished: addToHistory,
+    findDuplicate
+  });
+
+  const downloadAll = () => {
+    const pending = mediaItems.filter(item => item.status === 'pending');
+    // Worth a notification when it's done, so ask while we have a click to ask with.
+    if (pending.length >= LONG_QUEUE_ITEMS) requestNotificationPermission();
+    pending.forEach(item => queue.enqueue(item.id));
+  };
+
+  useQueueNotifications(mediaItems);
+
+  const selection = useSelection(mediaItems);
+  const selectedItems = mediaItems.filter(item => selection.selected.has(item.id));
+  const selectedUrls = selectedItems.map(item => item.url).join('\n');
+
+  // The card with keyboard focus, if any.
+  const focusedItemId = () =>
+    document.activeElement?.closest<HTMLElement>('[data-item-id]')?.dataset.itemId ?? null;
+
+  // Shortcuts act on the selection, or on the focused card when nothing is selected.
+  const shortcutTargets = () =>
+    selectedItems.length > 0 ? selectedItems : mediaItems.filter(item => item.id === focusedItemId());
+
+  const downloadItems = (items: MediaItem[]) => {
+    for (const item of items) {
+      if (item.status === 'pending') queue.enqueue(item.id);
+      else if (item.status === 'paused') queue.resume(item.id);
+    }
+  };
+
+  const retryItems = (items: MediaItem[]) => {
+    items
+      .filter(item => ['error', 'cancelled', 'mismatch'].includes(item.status))
+      .forEach(item => queue.retry(item.id));
+  };
+
+  const removeItems = (items: MediaItem[]) => {
+    const ids = new Set(items.map(item => item.id));
+    ids.forEach(id => queue.remove(id));
+    setMediaItems(prev => prev.filter(item => !ids.has(item.id)));
+  };
+
+  const copyUrls = (items: MediaItem[]) => {
+    if (items.length > 0) copyToClipboard(items.map(item => item.url).join('\n'));
+  };
+
+  // One URL per line, which the importer reads straight back in.
+  const exportUrls = (items: MediaItem[]) => {
+    const text = `${items.map(item => item.url).join('\n')}\n`;
+    saveBlob(new Blob([text], { type: 'text/plain' }), `mediadrop-urls-${new Date().toISOString().slice(0, 10)}.txt`);
+  };
 
-    } catch (error) {
-      console.error('Download failed:', error);
-      setMediaItems(prev => prev.map(i => 
-        i.id === item.id ? { ...i, status: 'error' } : i
-      ));
+  // Up and down move a whole row, however many columns the grid has.
+  const moveFocus = (step: 'previous' | 'next' | 'up' | 'down') => {
+    const cards = Array.from(gridRef.current?.querySelectorAll<HTMLElement>('[data-item-id]') ?? []);
+    if (cards.length === 0) return;
+    const current = cards.findIndex(card => card.contains(document.activeElement));
+    const columns = cards.filter(card => card.offsetTop === cards[0].offsetTop).length;
+    const offset = { previous: -1, next: 1, up: -columns, down: columns }[step];
+    cards[current < 0 ? 0 : Math.min(cards.length - 1, Math.max(0, current + offset))].focus();
+  };
+
+  const handleShortcut = (action: ShortcutAction) => {
+    switch (action) {
+      case 'download':
+        return downloadItems(shortcutTargets());
+      case 'retry':
+        return retryItems(shortcutTargets());
+      case 'remove':
+        return removeItems(shortcutTargets());
+      case 'copy':
+        return copyUrls(shortcutTargets());
+      case 'preview': {
+        const index = mediaItems.findIndex(item => item.id === focusedItemId());
+        if (index >= 0) setPreviewIndex(index);
+        return;
+      }
+      case 'toggleSelect': {
+        const id = focusedItemId();
+        if (id) selection.toggle(id);
+        return;
+      }
+      case 'selectAll':
+        return selection.setAll(true);
+      case 'clearSelection':
+        return selection.setAll(false);
+      case 'help':
+        return setShowShortcuts(true);
+      case 'focusPrevious':
+        return moveFocus('previous');
+      case 'focusNext':
+        return moveFocus('next');
+      case 'focusUp':
+        return moveFocus('up');
+      case 'focusDown':
+        return moveFocus('down');
     }
   };
 
-  const downloadAll = async () => {
-    const pendingItems = mediaItems.filter(item => item.status === 'pending');
-    for (const item of pendingItems) {
-      await downloadFile(item);
-      // Small delay between downloads to prevent overwhelming the browser
-      await new Promise(resolve => setTimeout(resolve, 500));
+  useShortcuts({
+    enabled: previewIndex === null && !importCandidates && !streamChoice && !showShortcuts,
+    onAction: handleShortcut,
+    onPaste: content => importCandidatesFound(extractUrls(content)),
+  });
+
+  // The selection when there is one, otherwise everything already downloaded.
+  const bundleItems = selectedItems.length > 0 ? selectedItems : mediaItems.filter(item => item.status === 'completed');
+
+  const bundleAll = async () => {
+    const items = bundleItems;
+    if (items.length === 0) return;
+
+    const zipName = `mediadrop-${new Date().toISOString().slice(0, 10)}.zip`;
+    const sink = await openSaveStream(zipName, {
+      'application/zip': ['.zip']
+    }).catch(err => {
+      console.error('Failed to open ZIP destination:', err);
+      return null;
+    });
+    if (!sink) return;
+
+    const controller = new AbortController();
+    bundleController.current = controller;
+    setBundleProgress({ done: 0, total: items.length, current: '' });
+
+    try {
+      await bundleToZip(items, sink, {
+        includeManifest: settings.zipManifest,
+        stripMetadata: settings.stripMetadata,
+        imageOutput: item => outputFor(item, settings.imageOutput),
+        hostPolicies: settings.hostPolicies,
+        signal: controller.signal,
+        fetch: proxyFetch,
+        onItemStart: (item, index) => setBundleProgress({ done: index, total: items.length, current: item.filename }),
+        onItemDone: (item, entry) => {
+          if (entry.error || item.status !== 'pending') return;
+          setMediaItems(prev => prev.map(i =>
+            i.id === item.id ? { ...i, status: 'completed', progress: 100, size: entry.size, sha256: entry.sha256 } : i
+          ));
+          addToHistory(
+            { ...item, filename: entry.filename },
+            { status: 'completed', savedTo: zipName, size: entry.size, sha256: entry.sha256 }
+          );
+        }
+      });
+    } catch (err) {
+      if (!controller.signal.aborted) console.error('ZIP export failed:', err);
+    } finally {
+      bundleController.current = null;
+      setBundleProgress(null);
     }
   };
 
@@ -223,18 +655,45 @@ function App() {
               </div>
               <h1 className="text-2xl font-bold text-gray-900">MediaDrop</h1>
             </div>
-            <button
-              onClick={() => setShowHistory(!showHistory)}
-              className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
-            >
-              <Clock className="w-5 h-5" />
-              <span>History</span>
-            </button>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <SettingsIcon className="w-5 h-5" />
+                <span>Settings</span>
+              </button>
+              <button
+                onClick={() => setShowShortcuts(true)}
+                className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                title="Keyboard shortcuts (?)"
+              >
+                <Keyboard className="w-5 h-5" />
+                <span>Shortcuts</span>
+              </button>
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="flex items-center space-x-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <Clock className="w-5 h-5" />
+                <span>History</span>
+              </button>
+            </div>
           </div>
         </div>
       </header>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {showSettings && (
+          <SettingsPanel
+            settings={settings}
+            saveDirectory={saveDirectory}
+            onChange={updateSettings}
+            onApplyTemplate={applyFilenameTemplate}
+            onImageOutputChange={changeImageOutput}
+          />
+        )}
+
         {/* URL Input Form */}
         <div className="mb-8">
           <form onSubmit={handleUrlSubmit} className="space-y-4">
@@ -257,6 +716,7 @@ function App() {
                     type="url"
                     value={urlInput}
                     onChange={(e) => setUrlInput(e.target.value)}
+                    onPaste={handleInputPaste}
                     placeholder="https://example.com/image.jpg or https://example.com/video.mp4"
                     className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors"
                   />
@@ -268,6 +728,23 @@ function App() {
                   >
                     <Copy className="w-5 h-5" />
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isProcessing}
+                    className="px-4 py-3 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-xl transition-colors disabled:opacity-50"
+                    title="Import URLs from a .txt, .csv or .html file"
+                  >
+                    {isProcessing ? <Loader className="w-5 h-5 animate-spin" /> : <Upload className="w-5 h-5" />}
+                  </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept=".txt,.csv,.tsv,.html,.htm,.json,text/*"
+                    onChange={handleFileSelect}
+                    className="hidden"
+                  />
                   <button
                     type="submit"
                     disabled={!urlInput.trim()}
@@ -279,7 +756,7 @@ function App() {
                 </div>
                 {dragActive && (
                   <div className="absolute inset-0 bg-blue-50/80 border-2 border-dashed border-blue-400 rounded-2xl flex items-center justify-center">
-                    <p className="text-blue-600 font-medium">Drop URL here</p>
+                    <p className="text-blue-600 font-medium">Drop URLs, links or a .txt/.csv/.html file here</p>
                   </div>
                 )}
               </div>
@@ -291,8 +768,76 @@ function App() {
         {mediaItems.length > 0 && (
           <div className="mb-8">
             <div className="flex items-center justify-between mb-6">
-              <h2 className="text-xl font-semibold text-gray-900">Download Queue</h2>
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  checked={selectedItems.length === mediaItems.length}
+                  ref={(el) => {
+                    if (el) el.indeterminate = selectedItems.length > 0 && selectedItems.length < mediaItems.length;
+                  }}
+                  onChange={(e) => selection.setAll(e.target.checked)}
+                  className="w-5 h-5 rounded"
+                  title="Select all"
+                />
+                <div>
+                  <h2 className="text-xl font-semibold text-gray-900">Download Queue</h2>
+                  {totals.active > 0 && (
+                    <p className="text-sm text-gray-500">
+                      {totals.active} downloading · {formatBytes(totals.received)}
+                      {totals.complete && totals.total > 0 && <span> of {formatBytes(totals.total)}</span>}
+                      {totals.speed > 0 && <span> · {formatBytes(totals.speed)}/s</span>}
+                      {totals.eta !== undefined && <span> · {formatDuration(totals.eta * 1000)} left</span>}
+                    </p>
+                  )}
+                </div>
+              </div>
               <div className="flex space-x-3">
+                <label className="flex items-center space-x-2 text-sm text-gray-600">
+                  <span>Parallel</span>
+                  <select
+                    value={settings.concurrency}
+                    onChange={(e) => updateSettings({ concurrency: Number(e.target.value) })}
+                    className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+                  >
+                    {[1, 2, 3, 4, 6, 8].map(n => (
+                      <option key={n} value={n}>{n}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-600" title="Add manifest.json with each file's URL, size and SHA-256">
+                  <input
+                    type="checkbox"
+                    checked={settings.zipManifest}
+                    onChange={(e) => updateSettings({ zipManifest: e.target.checked })}
+                    className="rounded"
+                  />
+                  <span>Manifest</span>
+                </label>
+                <button
+                  onClick={bundleAll}
+                  disabled={bundleProgress !== null || bundleItems.length === 0}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+                  title={selectedItems.length > 0 ? 'Save the selected items in one ZIP' : 'Save the completed items in one ZIP'}
+                >
+                  <FileArchive className="w-4 h-4" />
+                  <span>{selectedItems.length > 0 ? `Save ${selectedItems.length} selected as ZIP` : 'Save completed as ZIP'}</span>
+                </button>
+                <button
+                  onClick={exportPreset}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center space-x-2"
+                  title="Save the queue, with its filenames and output settings, as a JSON preset"
+                >
+                  <FileJson className="w-4 h-4" />
+                  <span>Export</span>
+                </button>
+                <button
+                  onClick={copyShareLink}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center space-x-2"
+                  title="Copy a link that opens this queue in MediaDrop"
+                >
+                  {copiedUrl !== null && copiedUrl === shareLink ? <Check className="w-4 h-4 text-green-500" /> : <Link className="w-4 h-4" />}
+                  <span>Share link</span>
+                </button>
                 <button
                   onClick={clearCompleted}
                   className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center space-x-2"
@@ -311,10 +856,70 @@ function App() {
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {mediaItems.map((item) => (
-                <div key={item.id} className="bg-white rounded-2xl shadow-lg overflow-hidden hover:shadow-xl transition-shadow duration-300">
-                  <div className="aspect-video bg-gray-100 relative overflow-hidden">
+            {queue.pausedHosts.map(host => (
+              <div key={host} className="mb-4 flex items-center justify-between p-4 bg-yellow-50 rounded-xl text-sm text-yellow-800">
+                <span>
+                  Downloads from <span className="font-medium">{host}</span> are paused because they kept failing.
+                </span>
+                <button
+                  onClick={() => queue.resumeHost(host)}
+                  className="px-3 py-1 bg-yellow-100 hover:bg-yellow-200 rounded-lg transition-colors flex items-center space-x-1"
+                >
+                  <Play className="w-4 h-4" />
+                  <span>Resume</span>
+                </button>
+              </div>
+            ))}
+
+            {bundleProgress && (
+              <div className="mb-6 p-4 bg-white rounded-2xl shadow-lg">
+                <div className="flex items-center justify-between text-sm text-gray-600 mb-2">
+                  <span className="truncate">
+                    Building ZIP ({bundleProgress.done + 1}/{bundleProgress.total}) {bundleProgress.current}
+                  </span>
+                  <button
+                    onClick={() => bundleController.current?.abort()}
+                    className="px-3 py-1 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-gradient-to-r from-green-500 to-blue-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${(bundleProgress.done / bundleProgress.total) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {selectedItems.length > 0 && (
+              <SelectionBar
+                count={selectedItems.length}
+                copied={copiedUrl === selectedUrls}
+                onDownload={() => downloadItems(selectedItems)}
+                onRetry={() => retryItems(selectedItems)}
+                onCopy={() => copyUrls(selectedItems)}
+                onExport={() => exportUrls(selectedItems)}
+                onRemove={() => removeItems(selectedItems)}
+                onClear={() => selection.setAll(false)}
+              />
+            )}
+
+            <div ref={gridRef} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {mediaItems.map((item, index) => (
+                <div
+                  key={item.id}
+                  data-item-id={item.id}
+                  tabIndex={0}
+                  className={`bg-white rounded-2xl shadow-lg overflow-hidden hover:shadow-xl transition-shadow duration-300 focus:outline-none focus-visible:ring-4 focus-visible:ring-blue-300 ${
+                    selection.selected.has(item.id) ? 'ring-2 ring-blue-500' : ''
+                  }`}
+                >
+                  <div
+                    className="aspect-video bg-gray-100 relative overflow-hidden cursor-zoom-in"
+                    onClick={() => setPreviewIndex(index)}
+                  >
                     {item.type === 'image' ? (
                       <img
                         src={item.url}
@@ -325,7 +930,7 @@ function App() {
                           img.style.display = 'none';
                         }}
                       />
-                    ) : (
+                    ) : item.type === 'video' ? (
                       <video
                         src={item.url}
                         className="w-full h-full object-cover"
@@ -336,36 +941,104 @@ function App() {
                           video.style.display = 'none';
                         }}
                       />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <MediaTypeIcon type={item.type} className="w-12 h-12 text-gray-300" />
+                      </div>
                     )}
+                    <input
+                      type="checkbox"
+                      checked={selection.selected.has(item.id)}
+                      readOnly
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        selection.toggle(item.id, e.shiftKey);
+                      }}
+                      className="absolute top-3 left-3 w-5 h-5 rounded cursor-pointer"
+                      aria-label={`Select ${item.filename}`}
+                    />
                     <div className="absolute top-3 right-3">
-                      {item.type === 'image' ? (
-                        <FileImage className="w-6 h-6 text-white bg-black/50 rounded p-1" />
-                      ) : (
-                        <FileVideo className="w-6 h-6 text-white bg-black/50 rounded p-1" />
-                      )}
+                      <MediaTypeIcon type={item.type} className="w-6 h-6 text-white bg-black/50 rounded p-1" />
                     </div>
                   </div>
                   
                   <div className="p-4">
-                    <h3 className="font-medium text-gray-900 truncate mb-2">{item.filename}</h3>
+                    <FilenameEditor
+                      filename={item.filename}
+                      editable={EDITABLE_STATUSES.includes(item.status)}
+                      onRename={(filename) => renameMediaItem(item.id, filename)}
+                    />
+                    {item.stream && (
+                      <p className="text-xs text-gray-500 -mt-1 mb-2">
+                        {item.stream.format.toUpperCase()} · {item.stream.label}
+                      </p>
+                    )}
+                    <ChecksumField
+                      expected={item.expectedChecksum}
+                      sha256={item.status === 'completed' ? item.sha256 : undefined}
+                      editable={EDITABLE_STATUSES.includes(item.status)}
+                      onChange={(expected) => setExpectedChecksum(item.id, expected)}
+                    />
+                    {item.type === 'image' && (
+                      <ImageOutputField
+                        output={item.imageOutput}
+                        queueOutput={settings.imageOutput}
+                        editable={EDITABLE_STATUSES.includes(item.status)}
+                        onChange={(output) => setItemImageOutput(item.id, output)}
+                      />
+                    )}
                     
-                    {item.status === 'downloading' && (
+                    {(item.status === 'downloading' || item.status === 'paused') && (
                       <div className="mb-3">
                         <div className="flex justify-between text-sm text-gray-600 mb-1">
-                          <span>Downloading...</span>
-                          <span>{Math.round(item.progress || 0)}%</span>
+                          <span>{item.status === 'paused' ? 'Paused' : 'Downloading...'}</span>
+                          <span>
+                            {item.progress !== undefined
+                              ? `${Math.round(item.progress)}%`
+                              : item.received ? formatBytes(item.received) : ''}
+                          </span>
                         </div>
-                        <div className="w-full bg-gray-200 rounded-full h-2">
-                          <div 
-                            className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full transition-all duration-300"
-                            style={{ width: `${item.progress || 0}%` }}
-                          />
+                        <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden">
+                          {item.progress === undefined && item.status === 'downloading' ? (
+                            <div className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 w-1/3 rounded-full animate-pulse" />
+                          ) : (
+                            <div
+                              className="bg-gradient-to-r from-blue-500 to-purple-600 h-2 rounded-full transition-all duration-300"
+                              style={{ width: `${item.progress || 0}%` }}
+                            />
+                          )}
                         </div>
+                        {item.status === 'downloading' && item.received !== undefined && (
+                          <div className="flex justify-between text-xs text-gray-500 mt-1">
+                            <span>
+                              {formatBytes(item.received)}
+                              {item.size !== undefined && ` of ${formatBytes(item.size)}`}
+                            </span>
+                            <span>
+                              {item.speed !== undefined && `${formatBytes(item.speed)}/s`}
+                              {item.eta !== undefined && ` · ${formatDuration(item.eta * 1000)} left`}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     )}
+                    {item.status === 'completed' && item.size !== undefined && (
+                      <p className="text-xs text-gray-500 -mt-1 mb-2">{formatBytes(item.size)}</p>
+                    )}
+
+                    {(item.status === 'error' || item.status === 'mismatch') && item.failure && (
+                      <FailureDetails failure={item.failure} />
+                    )}
 
                     <div className="flex items-center justify-between">
                       <div className="flex space-x-2">
+                        <button
+                          onClick={() => setPreviewIndex(index)}
+                          className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                          title="Preview"
+                        >
+                          <Eye className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => copyToClipboard(item.url)}
                           className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
@@ -389,25 +1062,108 @@ function App() {
                       </div>
                       
                       <div className="flex space-x-2">
+                        {item.status === 'pending' && !item.stream && needsResolving(item.url) && (
+                          <button
+                            onClick={() => expandUrl(item.url, item.id)}
+                            disabled={isProcessing}
+                            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                            title="Expand playlist or page"
+                          >
+                            <Layers className="w-4 h-4" />
+                          </button>
+                        )}
                         {item.status === 'pending' && (
                           <button
-                            onClick={() => downloadFile(item)}
+                            onClick={() => queue.enqueue(item.id)}
                             className="px-4 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 transition-all duration-200 flex items-center space-x-1"
                           >
                             <Download className="w-4 h-4" />
                             <span>Download</span>
                           </button>
                         )}
-                        {item.status === 'completed' && (
+                        {item.status === 'queued' && (
+                          <span className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium">
+                            Queued
+                          </span>
+                        )}
+                        {item.status === 'downloading' && (
+                          <button
+                            onClick={() => queue.pause(item.id)}
+                            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="Pause"
+                          >
+                            <Pause className="w-4 h-4" />
+                          </button>
+                        )}
+                        {item.status === 'paused' && (
+                          <button
+                            onClick={() => queue.resume(item.id)}
+                            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="Resume"
+                          >
+                            <Play className="w-4 h-4" />
+                          </button>
+                        )}
+                        {(item.status === 'queued' || item.status === 'downloading' || item.status === 'paused') && (
+                          <button
+                            onClick={() => queue.cancel(item.id)}
+                            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="Cancel"
+                          >
+                            <Square className="w-4 h-4" />
+                          </button>
+                        )}
+                        {item.status === 'completed' && item.duplicateOf && (
+                          <span
+                            className="px-4 py-2 bg-yellow-100 text-yellow-800 rounded-lg text-sm font-medium"
+                            title={`Same content as ${item.duplicateOf}`}
+                          >
+                            Duplicate
+                          </span>
+                        )}
+                        {item.status === 'completed' && item.checksumWarning && (
+                          <span
+                            className="px-4 py-2 bg-yellow-100 text-yellow-800 rounded-lg text-sm font-medium"
+                            title={item.checksumWarning}
+                          >
+                            Unverified
+                          </span>
+                        )}
+                        {item.status === 'completed' && !item.duplicateOf && (
                           <span className="px-4 py-2 bg-green-100 text-green-800 rounded-lg text-sm font-medium">
                             Completed
                           </span>
                         )}
+                        {item.status === 'cancelled' && (
+                          <span className="px-4 py-2 bg-gray-100 text-gray-600 rounded-lg text-sm font-medium">
+                            Cancelled
+                          </span>
+                        )}
                         {item.status === 'error' && (
-                          <span className="px-4 py-2 bg-red-100 text-red-800 rounded-lg text-sm font-medium">
-                            Error
+                          <span
+                            className="px-4 py-2 bg-red-100 text-red-800 rounded-lg text-sm font-medium"
+                            title={item.attempts ? `Failed ${item.attempts} time(s)` : undefined}
+                          >
+                            {item.nextRetryAt ? 'Retrying…' : 'Error'}
+                          </span>
+                        )}
+                        {item.status === 'mismatch' && (
+                          <span
+                            className="px-4 py-2 bg-red-100 text-red-800 rounded-lg text-sm font-medium"
+                            title="The downloaded bytes don't match the expected checksum and were discarded"
+                          >
+                            Checksum mismatch
                           </span>
                         )}
+                        {(item.status === 'error' || item.status === 'cancelled' || item.status === 'mismatch') && (
+                          <button
+                            onClick={() => queue.retry(item.id)}
+                            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="Retry"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                          </button>
+                        )}
                         <button
                           onClick={() => removeMediaItem(item.id)}
                           className="p-2 text-red-500 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors"
@@ -425,52 +1181,56 @@ function App() {
 
         {/* Download History */}
         {showHistory && (
-          <div className="bg-white rounded-2xl shadow-lg p-6">
-            <div className="flex items-center justify-between mb-6">
-              <h2 className="text-xl font-semibold text-gray-900">Download History</h2>
-              {downloadHistory.length > 0 && (
-                <button
-                  onClick={clearHistory}
-                  className="px-4 py-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors flex items-center space-x-2"
-                >
-                  <Trash2 className="w-4 h-4" />
-                  <span>Clear History</span>
-                </button>
-              )}
-            </div>
+          <HistoryPanel
+            entries={downloadHistory}
+            limit={settings.historyLimit}
+            onLimitChange={changeHistoryLimit}
+            onRequeue={requeueHistoryEntry}
+            onImport={importHistory}
+            onClear={clearHistory}
+          />
+        )}
 
-            {downloadHistory.length === 0 ? (
-              <p className="text-gray-500 text-center py-8">No downloads yet</p>
-            ) : (
-              <div className="space-y-3">
-                {downloadHistory.map((item) => (
-                  <div key={item.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
-                    <div className="flex items-center space-x-3">
-                      {item.type === 'image' ? (
-                        <FileImage className="w-5 h-5 text-gray-500" />
-                      ) : (
-                        <FileVideo className="w-5 h-5 text-gray-500" />
-                      )}
-                      <div>
-                        <p className="font-medium text-gray-900">{item.filename}</p>
-                        <p className="text-sm text-gray-500">{item.downloadedAt.toLocaleDateString()}</p>
-                      </div>
-                    </div>
-                    <button
-                      onClick={() => copyToClipboard(item.url)}
-                      className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-200 rounded-lg transition-colors"
-                    >
-                      {copiedUrl === item.url ? (
-                        <Check className="w-4 h-4 text-green-500" />
-                      ) : (
-                        <Copy className="w-4 h-4" />
-                      )}
-                    </button>
-                  </div>
-                ))}
-              </div>
-            )}
-          </div>
+        {importCandidates && (
+          <ImportPreview
+            candidates={importCandidates}
+            queuedUrls={queuedUrls}
+            onConfirm={confirmImport}
+            onCancel={() => setImportCandidates(null)}
+          />
+        )}
+
+        {presetImport && (
+          <PresetPrompt
+            {...presetImport}
+            queuedUrls={queuedUrls}
+            onConfirm={confirmPreset}
+            onCancel={() => setPresetImport(null)}
+          />
+        )}
+
+        {streamChoice && (
+          <StreamVariantPicker
+            format={streamChoice.format}
+            manifestUrl={streamChoice.manifestUrl}
+            variants={streamChoice.variants}
+            onConfirm={confirmStream}
+            onCancel={() => setStreamChoice(null)}
+          />
+        )}
+
+        {showShortcuts && <ShortcutHelp onClose={() => setShowShortcuts(false)} />}
+
+        {previewIndex !== null && mediaItems[previewIndex] && (
+          <Lightbox
+            items={mediaItems}
+            index={previewIndex}
+            fetch={proxyFetch}
+            stripMetadata={settings.stripMetadata}
+            onStripMetadataChange={(stripMetadata) => updateSettings({ stripMetadata })}
+            onNavigate={setPreviewIndex}
+            onClose={() => setPreviewIndex(null)}
+          />
         )}
 
         {/* Empty State */}
@@ -490,6 +1250,10 @@ function App() {
                 <FileVideo className="w-5 h-5" />
                 <span>Supports: MP4, WebM, AVI, MOV</span>
               </div>
+              <div className="flex items-center space-x-2 text-gray-500">
+                <FileAudio className="w-5 h-5" />
+                <span>Supports: MP3, M4A, WAV, OGG</span>
+              </div>
             </div>
           </div>
         )}
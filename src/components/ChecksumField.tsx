@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Pencil, ShieldCheck } from 'lucide-react';
+import { parseChecksum } from '../lib/integrity';
+
+interface ChecksumFieldProps {
+  /** What the user expects, as they typed it. */
+  expected?: string;
+  /** SHA-256 of the finished download. */
+  sha256?: string;
+  editable: boolean;
+  onChange: (expected: string | undefined) => void;
+}
+
+const short = (hex: string) => `${hex.slice(0, 12)}…`;
+
+function ChecksumField({ expected, sha256, editable, onChange }: ChecksumFieldProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const invalid = draft !== null && draft.trim() !== '' && !parseChecksum(draft);
+
+  const commit = () => {
+    if (draft === null || invalid) return;
+    onChange(draft.trim() || undefined);
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <div className="mb-2">
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => (invalid ? setDraft(null) : commit())}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') setDraft(null);
+          }}
+          placeholder="sha256:… or md5:…"
+          className={`w-full px-2 py-1 border rounded-lg font-mono text-xs focus:ring-2 focus:outline-none ${
+            invalid ? 'border-red-400 focus:ring-red-500' : 'border-blue-400 focus:ring-blue-500'
+          }`}
+        />
+        {invalid && <p className="mt-1 text-xs text-red-600">Enter a SHA-256 or MD5 in hex, or an SRI hash</p>}
+      </div>
+    );
+  }
+
+  if (sha256) {
+    return (
+      <p className="flex items-center text-xs text-gray-500 -mt-1 mb-2" title={sha256}>
+        <ShieldCheck className="w-3 h-3 mr-1" />
+        <span className="font-mono">SHA-256 {short(sha256)}</span>
+      </p>
+    );
+  }
+
+  if (expected) {
+    const parsed = parseChecksum(expected);
+    return (
+      <div className="flex items-center text-xs text-gray-500 -mt-1 mb-2 group" title={expected}>
+        <ShieldCheck className="w-3 h-3 mr-1" />
+        <span className="font-mono">
+          Expect {parsed ? `${parsed.algorithm.toUpperCase()} ${short(parsed.hex)}` : expected}
+        </span>
+        {editable && (
+          <button
+            onClick={() => setDraft(expected)}
+            className="ml-1 p-1 text-gray-400 hover:text-gray-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+            title="Edit expected checksum"
+          >
+            <Pencil className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return editable ? (
+    <button
+      onClick={() => setDraft('')}
+      className="flex items-center text-xs text-gray-400 hover:text-gray-700 -mt-1 mb-2 transition-colors"
+    >
+      <ShieldCheck className="w-3 h-3 mr-1" />
+      <span>Add checksum</span>
+    </button>
+  ) : null;
+}
+
+export default ChecksumField;
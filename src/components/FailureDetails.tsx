@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { describeFailure, type DownloadFailure } from '../lib/errors';
+import { formatBytes, formatDuration } from '../lib/format';
+
+interface FailureDetailsProps {
+  failure: DownloadFailure;
+}
+
+function FailureDetails({ failure }: FailureDetailsProps) {
+  const [open, setOpen] = useState(false);
+  const advice = describeFailure(failure);
+  const diagnostics = failure.diagnostics;
+
+  const rows: [string, string][] = diagnostics ? [
+    ['Error', `${failure.kind}: ${failure.message}`],
+    ['URL', diagnostics.url],
+    ...(diagnostics.responseUrl && diagnostics.responseUrl !== diagnostics.url
+      ? [['Final URL', diagnostics.responseUrl] as [string, string]]
+      : []),
+    ['Response', diagnostics.status !== undefined ? `${diagnostics.status} ${diagnostics.statusText ?? ''}`.trim() : 'none'],
+    ['Received', diagnostics.total > 0
+      ? `${formatBytes(diagnostics.received)} of ${formatBytes(diagnostics.total)}`
+      : formatBytes(diagnostics.received)],
+    ['Time to response', diagnostics.firstResponseAt !== undefined
+      ? formatDuration(diagnostics.firstResponseAt - diagnostics.startedAt)
+      : '—'],
+    ['Failed after', formatDuration(diagnostics.failedAt - diagnostics.startedAt)],
+    ['Attempts', String(diagnostics.attempts ?? 1)],
+  ] : [];
+
+  return (
+    <div className="mb-3 p-3 bg-red-50 rounded-lg text-sm">
+      <p className="font-medium text-red-800">{advice.title}</p>
+      <p className="mt-1 text-red-700">{advice.explanation}</p>
+      {advice.actions.length > 0 && (
+        <ul className="mt-1 ml-5 list-disc text-red-700">
+          {advice.actions.map(action => <li key={action}>{action}</li>)}
+        </ul>
+      )}
+      {diagnostics && (
+        <>
+          <button
+            onClick={() => setOpen(!open)}
+            className="mt-2 flex items-center text-xs text-red-700 hover:text-red-900"
+          >
+            {open ? <ChevronDown className="w-3 h-3 mr-1" /> : <ChevronRight className="w-3 h-3 mr-1" />}
+            Diagnostics
+          </button>
+          {open && (
+            <div className="mt-2 text-xs text-gray-700">
+              <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                {rows.map(([label, value]) => (
+                  <div key={label} className="contents">
+                    <dt className="text-gray-500">{label}</dt>
+                    <dd className="break-all">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+              {diagnostics.headers && Object.keys(diagnostics.headers).length > 0 && (
+                <>
+                  <p className="mt-2 text-gray-500">Response headers</p>
+                  <pre className="mt-1 p-2 bg-white rounded border border-red-100 overflow-x-auto whitespace-pre-wrap break-all">
+                    {Object.entries(diagnostics.headers).map(([name, value]) => `${name}: ${value}`).join('\n')}
+                  </pre>
+                </>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default FailureDetails;
@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { Pencil } from 'lucide-react';
+
+interface FilenameEditorProps {
+  filename: string;
+  editable: boolean;
+  onRename: (filename: string) => void;
+}
+
+function FilenameEditor({ filename, editable, onRename }: FilenameEditorProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const commit = () => {
+    if (draft !== null && draft.trim() && draft !== filename) onRename(draft);
+    setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <input
+        autoFocus
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(null);
+        }}
+        className="w-full mb-2 px-2 py-1 border border-blue-400 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+      />
+    );
+  }
+
+  return (
+    <div className="flex items-center mb-2 group">
+      <h3 className="font-medium text-gray-900 truncate" title={filename}>{filename}</h3>
+      {editable && (
+        <button
+          onClick={() => setDraft(filename)}
+          className="ml-1 p-1 text-gray-400 hover:text-gray-700 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          title="Rename"
+        >
+          <Pencil className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default FilenameEditor;
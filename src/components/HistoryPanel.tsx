@@ -0,0 +1,266 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Check, Copy, Download, RotateCcw, Search, Trash2, Upload } from 'lucide-react';
+import type { DownloadHistory, MediaType } from '../types';
+import {
+  EMPTY_FILTER,
+  filterHistory,
+  historyHosts,
+  historyToCsv,
+  historyToJson,
+  parseHistoryImport,
+  type HistoryFilter,
+  type HistorySort,
+} from '../lib/history';
+import { saveBlob } from '../lib/download';
+import { formatBytes, formatDuration } from '../lib/format';
+import MediaTypeIcon from './MediaTypeIcon';
+
+interface HistoryPanelProps {
+  entries: DownloadHistory[];
+  limit: number;
+  onLimitChange: (limit: number) => void;
+  onRequeue: (entry: DownloadHistory) => void;
+  onImport: (entries: DownloadHistory[]) => void;
+  onClear: () => void;
+}
+
+const LIMITS = [50, 100, 500, 1000, 0];
+
+const STATUS_STYLES: Record<string, string> = {
+  error: 'bg-red-100 text-red-700',
+  mismatch: 'bg-red-100 text-red-700',
+  cancelled: 'bg-gray-200 text-gray-600',
+};
+
+const selectClass = 'px-2 py-2 border border-gray-300 rounded-lg bg-white text-sm';
+
+function HistoryPanel({ entries, limit, onLimitChange, onRequeue, onImport, onClear }: HistoryPanelProps) {
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const hosts = useMemo(() => historyHosts(entries), [entries]);
+  const visible = useMemo(() => filterHistory(entries, filter), [entries, filter]);
+  const filtered = visible.length !== entries.length;
+
+  const update = (patch: Partial<HistoryFilter>) => setFilter(prev => ({ ...prev, ...patch }));
+
+  const copyUrl = async (entry: DownloadHistory) => {
+    try {
+      await navigator.clipboard.writeText(entry.url);
+      setCopiedId(entry.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  };
+
+  // Exports what's on screen, so a search doubles as an export filter.
+  const exportAs = (format: 'json' | 'csv') => {
+    const body = format === 'json' ? historyToJson(visible) : historyToCsv(visible);
+    const type = format === 'json' ? 'application/json' : 'text/csv';
+    saveBlob(new Blob([body], { type }), `mediadrop-history-${new Date().toISOString().slice(0, 10)}.${format}`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parseHistoryImport(await file.text(), file.name));
+      setImportError(null);
+    } catch (err) {
+      setImportError(`Couldn't import ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Download History</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>Keep</span>
+            <select
+              value={limit}
+              onChange={(e) => onLimitChange(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+            >
+              {LIMITS.map(n => (
+                <option key={n} value={n}>{n === 0 ? 'All' : n}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center space-x-2"
+            title="Import a JSON or CSV history export"
+          >
+            <Upload className="w-4 h-4" />
+            <span>Import</span>
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={handleImport}
+            className="hidden"
+          />
+          {entries.length > 0 && (
+            <>
+              <button
+                onClick={() => exportAs('json')}
+                className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center space-x-2"
+                title={filtered ? 'Export the entries that match the filters' : 'Export all entries'}
+              >
+                <Download className="w-4 h-4" />
+                <span>JSON</span>
+              </button>
+              <button
+                onClick={() => exportAs('csv')}
+                className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center space-x-2"
+                title={filtered ? 'Export the entries that match the filters' : 'Export all entries'}
+              >
+                <Download className="w-4 h-4" />
+                <span>CSV</span>
+              </button>
+              <button
+                onClick={onClear}
+                className="px-4 py-2 text-red-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors flex items-center space-x-2"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Clear History</span>
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {importError && <p className="mb-4 text-sm text-red-600">{importError}</p>}
+
+      {entries.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={filter.query}
+              onChange={(e) => update({ query: e.target.value })}
+              placeholder="Search filename or URL"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={filter.type}
+            onChange={(e) => update({ type: e.target.value as MediaType | 'all' })}
+            className={selectClass}
+          >
+            <option value="all">All types</option>
+            <option value="image">Images</option>
+            <option value="video">Videos</option>
+            <option value="audio">Audio</option>
+            <option value="other">Other</option>
+          </select>
+          <select value={filter.host} onChange={(e) => update({ host: e.target.value })} className={selectClass}>
+            <option value="">All hosts</option>
+            {hosts.map(host => (
+              <option key={host} value={host}>{host}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filter.from}
+            onChange={(e) => update({ from: e.target.value })}
+            className={selectClass}
+            title="From"
+          />
+          <input
+            type="date"
+            value={filter.to}
+            onChange={(e) => update({ to: e.target.value })}
+            className={selectClass}
+            title="To"
+          />
+          <select
+            value={filter.sort}
+            onChange={(e) => update({ sort: e.target.value as HistorySort })}
+            className={selectClass}
+          >
+            <option value="newest">Newest first</option>
+            <option value="oldest">Oldest first</option>
+            <option value="name">Name</option>
+            <option value="size">Largest first</option>
+          </select>
+          {filtered && (
+            <button
+              onClick={() => setFilter(EMPTY_FILTER)}
+              className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Reset
+            </button>
+          )}
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No downloads yet</p>
+      ) : visible.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No downloads match these filters</p>
+      ) : (
+        <div className="space-y-3">
+          {filtered && (
+            <p className="text-sm text-gray-500">Showing {visible.length} of {entries.length}</p>
+          )}
+          {visible.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors">
+              <div className="flex items-center space-x-3 min-w-0">
+                <MediaTypeIcon type={entry.type} className="w-5 h-5 text-gray-500 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">
+                    {entry.filename}
+                    {entry.status && entry.status !== 'completed' && (
+                      <span className={`ml-2 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[entry.status]}`}>
+                        {entry.status}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {entry.downloadedAt.toLocaleString()}
+                    {entry.size !== undefined && <span> · {formatBytes(entry.size)}</span>}
+                    {entry.duration !== undefined && <span> · {formatDuration(entry.duration)}</span>}
+                    {entry.savedTo && <span> · {entry.savedTo}</span>}
+                    {entry.duplicateOf && <span> · duplicate of {entry.duplicateOf}</span>}
+                    {entry.error && <span className="text-red-600"> · {entry.error}</span>}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-1 flex-shrink-0">
+                <button
+                  onClick={() => onRequeue(entry)}
+                  className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-200 rounded-lg transition-colors"
+                  title="Download again"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => copyUrl(entry)}
+                  className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-200 rounded-lg transition-colors"
+                  title="Copy URL"
+                >
+                  {copiedId === entry.id ? (
+                    <Check className="w-4 h-4 text-green-500" />
+                  ) : (
+                    <Copy className="w-4 h-4" />
+                  )}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default HistoryPanel;
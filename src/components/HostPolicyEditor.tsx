@@ -0,0 +1,121 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { NEW_HOST_POLICY, parseAllowedTypes, type HostPolicy } from '../lib/hostPolicy';
+
+interface HostPolicyEditorProps {
+  policies: HostPolicy[];
+  onChange: (policies: HostPolicy[]) => void;
+}
+
+const MB = 1024 * 1024;
+
+const toCount = (value: string) => Math.max(0, Math.floor(Number(value) || 0));
+
+function HostPolicyEditor({ policies, onChange }: HostPolicyEditorProps) {
+  const update = (index: number, patch: Partial<HostPolicy>) =>
+    onChange(policies.map((policy, i) => (i === index ? { ...policy, ...patch } : policy)));
+  const inputClass = 'w-20 px-2 py-1 border border-gray-300 rounded-lg';
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-normal pb-2 pr-2">Host</th>
+            <th className="font-normal pb-2 pr-2" title="0 leaves it to the queue's Parallel setting">Connections</th>
+            <th className="font-normal pb-2 pr-2">Delay (ms)</th>
+            <th className="font-normal pb-2 pr-2">Max size (MB)</th>
+            <th className="font-normal pb-2 pr-2">Allowed types</th>
+            <th className="font-normal pb-2 pr-2" title="Failed attempts in a row; 0 never pauses">Pause after</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {policies.map((policy, index) => (
+            <tr key={index}>
+              <td className="py-1 pr-2">
+                <input
+                  value={policy.host}
+                  onChange={(e) => update(index, { host: e.target.value.trim().toLowerCase() })}
+                  placeholder="*.example.com"
+                  className="w-40 px-2 py-1 border border-gray-300 rounded-lg font-mono"
+                  aria-label="Host"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={policy.maxConnections}
+                  onChange={(e) => update(index, { maxConnections: toCount(e.target.value) })}
+                  className={inputClass}
+                  aria-label="Maximum connections"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  min={0}
+                  step={100}
+                  value={policy.minDelay}
+                  onChange={(e) => update(index, { minDelay: toCount(e.target.value) })}
+                  className={inputClass}
+                  aria-label="Delay between downloads"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={policy.maxFileSize ? Math.round(policy.maxFileSize / MB) : ''}
+                  onChange={(e) => update(index, { maxFileSize: toCount(e.target.value) * MB })}
+                  placeholder="any"
+                  className={inputClass}
+                  aria-label="Maximum file size"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                {/* Committed on blur so typing a separator doesn't get swallowed. */}
+                <input
+                  key={policy.allowedTypes.join(', ')}
+                  defaultValue={policy.allowedTypes.join(', ')}
+                  onBlur={(e) => update(index, { allowedTypes: parseAllowedTypes(e.target.value) })}
+                  placeholder="any, or image/*, video/mp4"
+                  className="w-48 px-2 py-1 border border-gray-300 rounded-lg font-mono"
+                  aria-label="Allowed MIME types"
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={policy.pauseAfterFailures}
+                  onChange={(e) => update(index, { pauseAfterFailures: toCount(e.target.value) })}
+                  className={inputClass}
+                  aria-label="Pause after failures"
+                />
+              </td>
+              <td className="py-1">
+                <button
+                  onClick={() => onChange(policies.filter((_, i) => i !== index))}
+                  className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Remove rule"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button
+        onClick={() => onChange([...policies, NEW_HOST_POLICY])}
+        className="mt-2 px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors flex items-center space-x-2"
+      >
+        <Plus className="w-4 h-4" />
+        <span>Add rule</span>
+      </button>
+    </div>
+  );
+}
+
+export default HostPolicyEditor;
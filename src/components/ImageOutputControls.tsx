@@ -0,0 +1,68 @@
+import type { ImageFormat, ImageOutput } from '../lib/imageOutput';
+
+interface ImageOutputControlsProps {
+  output: ImageOutput;
+  onChange: (output: ImageOutput) => void;
+  /** Smaller controls, for use inside a queue card. */
+  compact?: boolean;
+}
+
+const toPixels = (value: string) => Math.max(0, Math.floor(Number(value) || 0));
+
+function ImageOutputControls({ output, onChange, compact = false }: ImageOutputControlsProps) {
+  const update = (patch: Partial<ImageOutput>) => onChange({ ...output, ...patch });
+  const inputClass = `${compact ? 'w-16' : 'w-20'} px-2 py-1 border border-gray-300 rounded-lg`;
+
+  return (
+    <div className={`flex flex-wrap items-center ${compact ? 'gap-2 text-xs' : 'gap-3 text-sm'}`}>
+      <select
+        value={output.format ?? ''}
+        onChange={(e) => update({ format: (e.target.value || undefined) as ImageFormat | undefined })}
+        className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+        aria-label="Output format"
+      >
+        <option value="">Keep format</option>
+        <option value="jpeg">JPEG</option>
+        <option value="png">PNG</option>
+        <option value="webp">WebP</option>
+      </select>
+      <span className="flex items-center space-x-1 text-gray-600">
+        <span>Max</span>
+        <input
+          type="number"
+          min={0}
+          value={output.maxWidth || ''}
+          onChange={(e) => update({ maxWidth: toPixels(e.target.value) })}
+          placeholder="width"
+          className={inputClass}
+          aria-label="Maximum width"
+        />
+        <span>×</span>
+        <input
+          type="number"
+          min={0}
+          value={output.maxHeight || ''}
+          onChange={(e) => update({ maxHeight: toPixels(e.target.value) })}
+          placeholder="height"
+          className={inputClass}
+          aria-label="Maximum height"
+        />
+      </span>
+      <label className="flex items-center space-x-2 text-gray-600" title={output.format === 'png' ? 'PNG is lossless' : undefined}>
+        <span>Quality</span>
+        <input
+          type="range"
+          min={1}
+          max={100}
+          value={output.quality}
+          disabled={output.format === 'png'}
+          onChange={(e) => update({ quality: Number(e.target.value) })}
+          className={`${compact ? 'w-16' : 'w-24'} disabled:opacity-50`}
+        />
+        <span className="w-7 tabular-nums">{output.quality}</span>
+      </label>
+    </div>
+  );
+}
+
+export default ImageOutputControls;
@@ -0,0 +1,54 @@
+import { useState } from 'react';
+import { Scaling } from 'lucide-react';
+import { describeOutput, isPassthrough, type ImageOutput } from '../lib/imageOutput';
+import ImageOutputControls from './ImageOutputControls';
+
+interface ImageOutputFieldProps {
+  /** The item's own settings, if it has any. */
+  output?: ImageOutput;
+  queueOutput: ImageOutput;
+  editable: boolean;
+  onChange: (output: ImageOutput | undefined) => void;
+}
+
+function ImageOutputField({ output, queueOutput, editable, onChange }: ImageOutputFieldProps) {
+  const [open, setOpen] = useState(false);
+  const effective = output ?? queueOutput;
+
+  if (open && editable) {
+    return (
+      <div className="mb-2 p-2 bg-gray-50 rounded-lg">
+        <ImageOutputControls compact output={effective} onChange={onChange} />
+        <div className="mt-2 flex justify-end space-x-3 text-xs">
+          {output && (
+            <button onClick={() => onChange(undefined)} className="text-gray-500 hover:text-gray-700">
+              Use queue setting
+            </button>
+          )}
+          <button onClick={() => setOpen(false)} className="text-blue-600 hover:text-blue-800">
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (isPassthrough(effective) && !editable) return null;
+
+  return (
+    <button
+      onClick={() => setOpen(true)}
+      disabled={!editable}
+      className="flex items-center text-xs text-gray-400 enabled:hover:text-gray-700 -mt-1 mb-2 transition-colors"
+    >
+      <Scaling className="w-3 h-3 mr-1" />
+      <span>
+        {isPassthrough(effective) && !output
+          ? 'Convert or resize'
+          : `Output: ${describeOutput(effective)}${output ? '' : ' (queue)'}`}
+      </span>
+    </button>
+  );
+}
+
+export default ImageOutputField;
@@ -0,0 +1,108 @@
+import { useMemo, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import type { ImportCandidate } from '../lib/importer';
+import { normalizeUrl } from '../lib/importer';
+import { getMediaType } from '../lib/media';
+import MediaTypeIcon from './MediaTypeIcon';
+
+interface ImportPreviewProps {
+  candidates: ImportCandidate[];
+  /** Normalized URLs already in the queue; shown but not selectable. */
+  queuedUrls: Set<string>;
+  onConfirm: (urls: string[]) => void;
+  onCancel: () => void;
+}
+
+function ImportPreview({ candidates, queuedUrls, onConfirm, onCancel }: ImportPreviewProps) {
+  const fresh = useMemo(
+    () => candidates.filter(candidate => !queuedUrls.has(normalizeUrl(candidate.url))),
+    [candidates, queuedUrls]
+  );
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(fresh.map(c => c.url)));
+
+  const toggle = (url: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(url)) next.delete(url);
+      else next.add(url);
+      return next;
+    });
+  };
+
+  const allSelected = fresh.length > 0 && selected.size === fresh.length;
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Import URLs</h2>
+            <p className="text-sm text-gray-500">
+              Found {candidates.length} URL{candidates.length === 1 ? '' : 's'}
+              {candidates.length > fresh.length && `, ${candidates.length - fresh.length} already queued`}
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-gray-100">
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={() => setSelected(allSelected ? new Set() : new Set(fresh.map(c => c.url)))}
+              className="rounded"
+            />
+            <span>Select all</span>
+          </label>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-6 py-3 space-y-1">
+          {candidates.map(candidate => {
+            const queued = queuedUrls.has(normalizeUrl(candidate.url));
+            return (
+              <li key={candidate.url}>
+                <label className={`flex items-center space-x-3 p-2 rounded-lg ${queued ? 'opacity-50' : 'hover:bg-gray-50'}`}>
+                  <input
+                    type="checkbox"
+                    disabled={queued}
+                    checked={!queued && selected.has(candidate.url)}
+                    onChange={() => toggle(candidate.url)}
+                    className="rounded"
+                  />
+                  <MediaTypeIcon type={getMediaType(candidate.url)} className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                  <span className="flex-1 text-sm text-gray-800 truncate" title={candidate.url}>{candidate.url}</span>
+                  <span className="text-xs text-gray-400">{queued ? 'queued' : candidate.source}</span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(fresh.filter(c => selected.has(c.url)).map(c => c.url))}
+            disabled={selected.size === 0}
+            className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add {selected.size}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ImportPreview;
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { ChevronLeft, ChevronRight, MapPin, X } from 'lucide-react';
+import type { MediaItem } from '../types';
+import { describeExif } from '../lib/exif';
+import { probeMedia, type MediaProbe } from '../lib/probe';
+import { formatBytes, formatDuration } from '../lib/format';
+import MediaTypeIcon from './MediaTypeIcon';
+
+interface LightboxProps {
+  items: MediaItem[];
+  index: number;
+  fetch: typeof fetch;
+  stripMetadata: boolean;
+  onStripMetadataChange: (strip: boolean) => void;
+  onNavigate: (index: number) => void;
+  onClose: () => void;
+}
+
+const navButton = 'absolute top-1/2 -translate-y-1/2 p-2 text-white/80 hover:text-white bg-black/40 hover:bg-black/60 rounded-full transition-colors';
+
+function Lightbox({ items, index, fetch: fetchImpl, stripMetadata, onStripMetadataChange, onNavigate, onClose }: LightboxProps) {
+  const item = items[index];
+  const count = items.length;
+  const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [probe, setProbe] = useState<MediaProbe | null>(null);
+  const [probeError, setProbeError] = useState<string | null>(null);
+  const [broken, setBroken] = useState(false);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Leave arrow keys to a focused player, where they seek.
+      const inPlayer = e.target instanceof HTMLMediaElement;
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && !inPlayer) onNavigate((index - 1 + count) % count);
+      else if (e.key === 'ArrowRight' && !inPlayer) onNavigate((index + 1) % count);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [index, count, onClose, onNavigate]);
+
+  useEffect(() => {
+    setDimensions(null);
+    setDuration(null);
+    setProbe(null);
+    setProbeError(null);
+    setBroken(false);
+    // A manifest has nothing to sniff; the stream label says what there is.
+    if (item.stream) return;
+
+    const controller = new AbortController();
+    probeMedia(item.url, { signal: controller.signal, fetch: fetchImpl })
+      .then(setProbe)
+      .catch(error => {
+        if (!controller.signal.aborted) setProbeError(error instanceof Error ? error.message : String(error));
+      });
+    return () => controller.abort();
+  }, [item.url, item.stream, fetchImpl]);
+
+  const onMediaMetadata = (media: HTMLVideoElement | HTMLAudioElement) => {
+    if (Number.isFinite(media.duration)) setDuration(media.duration);
+    if (media instanceof HTMLVideoElement && media.videoWidth > 0) {
+      setDimensions({ width: media.videoWidth, height: media.videoHeight });
+    }
+  };
+
+  const placeholder = (
+    <div className="flex flex-col items-center text-white/60">
+      <MediaTypeIcon type={item.type} className="w-16 h-16 mb-3" />
+      <p className="text-sm">{item.stream ? 'Streams can’t be previewed here' : broken ? 'This file can’t be shown' : 'No preview'}</p>
+    </div>
+  );
+
+  const media = item.stream || broken ? placeholder
+    : item.type === 'image' ? (
+      <img
+        src={item.url}
+        alt={item.filename}
+        className="max-w-full max-h-full object-contain"
+        onLoad={(e) => setDimensions({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+        onError={() => setBroken(true)}
+      />
+    ) : item.type === 'video' ? (
+      <video
+        key={item.id}
+        src={item.url}
+        className="max-w-full max-h-full"
+        controls
+        autoPlay
+        playsInline
+        onLoadedMetadata={(e) => onMediaMetadata(e.currentTarget)}
+        onError={() => setBroken(true)}
+      />
+    ) : item.type === 'audio' ? (
+      <audio
+        key={item.id}
+        src={item.url}
+        className="w-full max-w-lg"
+        controls
+        autoPlay
+        onLoadedMetadata={(e) => onMediaMetadata(e.currentTarget)}
+        onError={() => setBroken(true)}
+      />
+    ) : placeholder;
+
+  const size = probe?.size ?? item.size;
+  const rows: [string, string | undefined][] = [
+    ['Type', item.type],
+    ['Stream', item.stream ? `${item.stream.format.toUpperCase()} · ${item.stream.label}` : undefined],
+    ['Dimensions', dimensions ? `${dimensions.width} × ${dimensions.height}` : undefined],
+    ['Duration', duration !== null ? formatDuration(duration * 1000) : undefined],
+    ['Container', probe?.container],
+    ['Codecs', probe?.codecs.join(', ') || undefined],
+    ['File size', size !== undefined ? formatBytes(size) : undefined],
+    ['MIME type', probe?.mime ?? item.mime],
+  ];
+  const exif = probe?.exif ? describeExif(probe.exif) : [];
+
+  return (
+    <div className="fixed inset-0 z-30 bg-black/90 flex flex-col md:flex-row" role="dialog" aria-modal="true" aria-label={item.filename}>
+      <div
+        className="relative flex-1 min-h-0 flex items-center justify-center p-12"
+        onClick={(e) => e.target === e.currentTarget && onClose()}
+      >
+        {media}
+        <span className="absolute top-4 left-4 text-sm text-white/80">{index + 1} / {count}</span>
+        <button onClick={onClose} className="absolute top-3 right-3 p-2 text-white/80 hover:text-white hover:bg-white/10 rounded-lg transition-colors" title="Close (Esc)">
+          <X className="w-6 h-6" />
+        </button>
+        {count > 1 && (
+          <>
+            <button onClick={() => onNavigate((index - 1 + count) % count)} className={`${navButton} left-3`} title="Previous (←)">
+              <ChevronLeft className="w-6 h-6" />
+            </button>
+            <button onClick={() => onNavigate((index + 1) % count)} className={`${navButton} right-3`} title="Next (→)">
+              <ChevronRight className="w-6 h-6" />
+            </button>
+          </>
+        )}
+      </div>
+
+      <aside className="md:w-80 max-h-[40vh] md:max-h-none shrink-0 bg-white overflow-y-auto p-6">
+        <h2 className="font-semibold text-gray-900 break-all mb-4">{item.filename}</h2>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+          {rows.filter((row): row is [string, string] => row[1] !== undefined).map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-gray-900 break-all">{value}</dd>
+            </div>
+          ))}
+        </dl>
+        {!probe && !probeError && !item.stream && (
+          <p className="mt-3 text-xs text-gray-500">Reading file details…</p>
+        )}
+        {probeError && (
+          <p className="mt-3 text-xs text-gray-500">Couldn’t read file details: {probeError}</p>
+        )}
+
+        {exif.length > 0 && (
+          <>
+            <h3 className="mt-6 mb-2 text-sm font-medium text-gray-700">EXIF</h3>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-sm">
+              {exif.map(([label, value]) => (
+                <div key={label} className="contents">
+                  <dt className="text-gray-500">{label}</dt>
+                  <dd className="text-gray-900 break-all">{value}</dd>
+                </div>
+              ))}
+            </dl>
+            {probe?.exif?.gps && (
+              <p className="mt-3 flex items-start text-xs text-yellow-800 bg-yellow-50 rounded-lg p-2">
+                <MapPin className="w-4 h-4 mr-1 shrink-0" />
+                This photo records where it was taken.
+              </p>
+            )}
+          </>
+        )}
+
+        {item.type === 'image' && (
+          <label className="mt-6 flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={stripMetadata}
+              onChange={(e) => onStripMetadataChange(e.target.checked)}
+              className="rounded"
+            />
+            <span>Strip EXIF and location data when saving</span>
+          </label>
+        )}
+      </aside>
+    </div>
+  );
+}
+
+export default Lightbox;
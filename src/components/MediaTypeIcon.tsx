@@ -0,0 +1,21 @@
+import { File, FileAudio, FileImage, FileVideo } from 'lucide-react';
+import type { MediaType } from '../types';
+
+const ICONS = {
+  image: FileImage,
+  video: FileVideo,
+  audio: FileAudio,
+  other: File,
+};
+
+interface MediaTypeIconProps {
+  type: MediaType;
+  className?: string;
+}
+
+function MediaTypeIcon({ type, className }: MediaTypeIconProps) {
+  const Icon = ICONS[type] ?? File;
+  return <Icon className={className} />;
+}
+
+export default MediaTypeIcon;
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { AlertCircle, Plus, X } from 'lucide-react';
+import { normalizeUrl } from '../lib/importer';
+import { getMediaType } from '../lib/media';
+import { describeOutput } from '../lib/imageOutput';
+import type { QueuePreset } from '../lib/preset';
+import MediaTypeIcon from './MediaTypeIcon';
+
+interface PresetPromptProps {
+  /** Where the preset came from, e.g. "a shared link" or a filename. */
+  source: string;
+  preset?: QueuePreset;
+  /** Why the preset couldn't be read; shown instead of the items. */
+  error?: string;
+  /** Normalized URLs already in the queue; they won't be added again. */
+  queuedUrls: Set<string>;
+  onConfirm: (useOutputSettings: boolean) => void;
+  onCancel: () => void;
+}
+
+function PresetPrompt({ source, preset, error, queuedUrls, onConfirm, onCancel }: PresetPromptProps) {
+  const [useOutputSettings, setUseOutputSettings] = useState(true);
+  const items = preset?.items ?? [];
+  const fresh = items.filter(item => !queuedUrls.has(normalizeUrl(item.url)));
+  const sharesSettings = preset?.imageOutput !== undefined || preset?.stripMetadata !== undefined;
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Add shared queue</h2>
+            <p className="text-sm text-gray-500">
+              From {source}
+              {preset && `: ${items.length} item${items.length === 1 ? '' : 's'}`}
+              {items.length > fresh.length && `, ${items.length - fresh.length} already queued`}
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error ? (
+          <div className="flex items-start space-x-2 m-6 p-4 bg-red-50 rounded-lg text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>Couldn't read this queue: {error}</span>
+          </div>
+        ) : (
+          <ul className="flex-1 overflow-y-auto px-6 py-3 space-y-1">
+            {items.map((item, index) => {
+              const queued = queuedUrls.has(normalizeUrl(item.url));
+              return (
+                <li
+                  key={`${index}:${item.url}`}
+                  className={`flex items-center space-x-3 p-2 rounded-lg ${queued ? 'opacity-50' : ''}`}
+                >
+                  <MediaTypeIcon type={getMediaType(item.url)} className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                  <span className="flex-1 text-sm text-gray-800 truncate" title={item.url}>{item.url}</span>
+                  <span className="text-xs text-gray-400 truncate max-w-[12rem]" title={item.filename}>
+                    {queued ? 'queued' : item.filename}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {preset && sharesSettings && (
+          <label className="flex items-start space-x-2 px-6 py-3 border-t border-gray-100 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={useOutputSettings}
+              onChange={(e) => setUseOutputSettings(e.target.checked)}
+              className="rounded mt-0.5"
+            />
+            <span>
+              Use the shared image settings
+              <span className="block text-xs text-gray-500">
+                {preset.imageOutput && describeOutput(preset.imageOutput)}
+                {preset.imageOutput && preset.stripMetadata !== undefined && ' · '}
+                {preset.stripMetadata !== undefined && (preset.stripMetadata ? 'strip metadata' : 'keep metadata')}
+              </span>
+            </span>
+          </label>
+        )}
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            {error ? 'Close' : 'Cancel'}
+          </button>
+          {!error && (
+            <button
+              onClick={() => onConfirm(sharesSettings && useOutputSettings)}
+              disabled={fresh.length === 0}
+              className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center space-x-2"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add {fresh.length}</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PresetPrompt;
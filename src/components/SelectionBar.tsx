@@ -0,0 +1,48 @@
+import { Check, Copy, Download, FileText, RotateCcw, Trash2, X } from 'lucide-react';
+
+interface SelectionBarProps {
+  count: number;
+  copied: boolean;
+  onDownload: () => void;
+  onRetry: () => void;
+  onCopy: () => void;
+  onExport: () => void;
+  onRemove: () => void;
+  onClear: () => void;
+}
+
+const buttonClass = 'px-3 py-1.5 rounded-lg transition-colors flex items-center space-x-1';
+const actionClass = `${buttonClass} text-blue-800 hover:bg-blue-100`;
+
+function SelectionBar({ count, copied, onDownload, onRetry, onCopy, onExport, onRemove, onClear }: SelectionBarProps) {
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-1 p-2 bg-blue-50 rounded-xl text-sm">
+      <span className="px-2 font-medium text-blue-900">{count} selected</span>
+      <button onClick={onDownload} className={actionClass} title="Download (Enter)">
+        <Download className="w-4 h-4" />
+        <span>Download</span>
+      </button>
+      <button onClick={onRetry} className={actionClass} title="Retry (R)">
+        <RotateCcw className="w-4 h-4" />
+        <span>Retry</span>
+      </button>
+      <button onClick={onCopy} className={actionClass} title="Copy URLs (C)">
+        {copied ? <Check className="w-4 h-4 text-green-500" /> : <Copy className="w-4 h-4" />}
+        <span>Copy URLs</span>
+      </button>
+      <button onClick={onExport} className={actionClass} title="Save the URLs as a text file">
+        <FileText className="w-4 h-4" />
+        <span>Export</span>
+      </button>
+      <button onClick={onRemove} className={`${buttonClass} text-red-700 hover:bg-red-100`} title="Remove (Delete)">
+        <Trash2 className="w-4 h-4" />
+        <span>Remove</span>
+      </button>
+      <button onClick={onClear} className={`${actionClass} ml-auto`} title="Clear selection (Esc)">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+export default SelectionBar;
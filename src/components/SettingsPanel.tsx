@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { Check, FolderOpen, X } from 'lucide-react';
+import type { DuplicateAction, Settings } from '../types';
+import { checkProxy, type ProxyMode } from '../lib/proxy';
+import type { SaveDirectory } from '../hooks/useSaveDirectory';
+import { DEFAULT_TEMPLATE, TEMPLATE_TOKENS, renderFilename } from '../lib/filename';
+import type { ImageOutput } from '../lib/imageOutput';
+import ImageOutputControls from './ImageOutputControls';
+import HostPolicyEditor from './HostPolicyEditor';
+
+interface SettingsPanelProps {
+  settings: Settings;
+  saveDirectory: SaveDirectory;
+  onChange: (patch: Partial<Settings>) => void;
+  onApplyTemplate: (template: string) => void;
+  onImageOutputChange: (output: ImageOutput) => void;
+}
+
+const EXAMPLE_URL = 'https://cdn.example.com/photos/sunset.jpg';
+
+function SettingsPanel({ settings, saveDirectory, onChange, onApplyTemplate, onImageOutputChange }: SettingsPanelProps) {
+  const [template, setTemplate] = useState(settings.filenameTemplate);
+  const [proxyUrl, setProxyUrl] = useState(settings.proxyUrl);
+  const [proxyStatus, setProxyStatus] = useState<'checking' | 'up' | 'down' | null>(null);
+
+  const testProxy = async () => {
+    setProxyStatus('checking');
+    setProxyStatus((await checkProxy(proxyUrl)) ? 'up' : 'down');
+  };
+
+  const save = () => {
+    const filenameTemplate = template.trim() || DEFAULT_TEMPLATE;
+    onChange({ filenameTemplate });
+    return filenameTemplate;
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 mb-6">Settings</h2>
+
+      <section className="mb-8">
+        <h3 className="block text-sm font-medium text-gray-700 mb-2">Save location</h3>
+        {saveDirectory.supported ? (
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="flex items-center space-x-2 text-gray-900">
+              <FolderOpen className="w-5 h-5 text-gray-500" />
+              <span>{saveDirectory.directory ? saveDirectory.directory.name : 'Browser downloads'}</span>
+            </span>
+            {saveDirectory.directory && !saveDirectory.granted && (
+              <button
+                onClick={saveDirectory.reconnect}
+                className="px-4 py-2 bg-yellow-100 text-yellow-800 rounded-lg hover:bg-yellow-200 transition-colors"
+              >
+                Allow access again
+              </button>
+            )}
+            <button
+              onClick={saveDirectory.choose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Choose folder…
+            </button>
+            {saveDirectory.directory && (
+              <button
+                onClick={saveDirectory.clear}
+                className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                Use browser downloads
+              </button>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">
+            This browser can't write to a folder directly, so files go to its downloads folder.
+          </p>
+        )}
+      </section>
+
+      <section>
+        <label htmlFor="filename-template" className="block text-sm font-medium text-gray-700 mb-2">
+          Filename template
+        </label>
+        <div className="flex space-x-3">
+          <input
+            id="filename-template"
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            onBlur={save}
+            placeholder={DEFAULT_TEMPLATE}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            onClick={() => onApplyTemplate(save())}
+            className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Rename queued items that haven't been renamed by hand"
+          >
+            Apply to queue
+          </button>
+        </div>
+        <p className="mt-2 text-sm text-gray-500">
+          Example: <span className="font-mono">{renderFilename(template, { url: EXAMPLE_URL, type: 'image', index: 1 })}</span>
+          {' '}— use <span className="font-mono">/</span> to sort into folders.
+        </p>
+        <dl className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+          {Object.entries(TEMPLATE_TOKENS).map(([token, description]) => (
+            <div key={token} className="flex space-x-2">
+              <dt className="font-mono text-gray-700">{token}</dt>
+              <dd className="text-gray-500">{description}</dd>
+            </div>
+          ))}
+        </dl>
+      </section>
+
+      <section className="mt-8">
+        <label htmlFor="duplicates" className="block text-sm font-medium text-gray-700 mb-2">
+          Duplicate downloads
+        </label>
+        <select
+          id="duplicates"
+          value={settings.duplicates}
+          onChange={(e) => onChange({ duplicates: e.target.value as DuplicateAction })}
+          className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+        >
+          <option value="flag">Save and flag them</option>
+          <option value="skip">Don't save them again</option>
+        </select>
+        <p className="mt-2 text-sm text-gray-500">
+          A download counts as a duplicate when its SHA-256 matches one already in the queue or history.
+        </p>
+      </section>
+
+      <section className="mt-8">
+        <h3 className="block text-sm font-medium text-gray-700 mb-2">Image output</h3>
+        <ImageOutputControls output={settings.imageOutput} onChange={onImageOutputChange} />
+        <p className="mt-2 text-sm text-gray-500">
+          Each image is converted and scaled down to fit in a background worker once it has downloaded; smaller
+          images aren’t enlarged. Queued names get the new extension, and any item can override this from its card.
+          Converting also drops EXIF metadata.
+        </p>
+      </section>
+
+      <section className="mt-8">
+        <h3 className="block text-sm font-medium text-gray-700 mb-2">Image metadata</h3>
+        <label className="flex items-center space-x-2 text-gray-900">
+          <input
+            type="checkbox"
+            checked={settings.stripMetadata}
+            onChange={(e) => onChange({ stripMetadata: e.target.checked })}
+            className="rounded"
+          />
+          <span>Strip EXIF and location data from images before saving</span>
+        </label>
+        <p className="mt-2 text-sm text-gray-500">
+          Removes camera details, GPS coordinates, XMP and comments from JPEG, PNG and WebP files without
+          re-encoding them. A photo’s orientation is kept so it still displays the right way up.
+        </p>
+      </section>
+
+      <section className="mt-8">
+        <h3 className="block text-sm font-medium text-gray-700 mb-2">Host rules</h3>
+        <HostPolicyEditor policies={settings.hostPolicies} onChange={(hostPolicies) => onChange({ hostPolicies })} />
+        <p className="mt-2 text-sm text-gray-500">
+          Each download follows the most specific rule for its host: an exact host beats
+          {' '}<span className="font-mono">*.example.com</span>, which beats <span className="font-mono">*</span>.
+          Limits count per host, a <span className="font-mono">Retry-After</span> on 429 or 503 holds back the whole
+          host, and a host whose downloads keep failing is paused until you resume it.
+        </p>
+      </section>
+
+      <section className="mt-8">
+        <label htmlFor="proxy-mode" className="block text-sm font-medium text-gray-700 mb-2">
+          Download proxy
+        </label>
+        <div className="flex flex-wrap items-center gap-3">
+          <select
+            id="proxy-mode"
+            value={settings.proxyMode}
+            onChange={(e) => onChange({ proxyMode: e.target.value as ProxyMode })}
+            className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+          >
+            <option value="off">Off</option>
+            <option value="fallback">When a site blocks direct downloads</option>
+            <option value="always">For every download</option>
+          </select>
+          <input
+            value={proxyUrl}
+            onChange={(e) => {
+              setProxyUrl(e.target.value);
+              setProxyStatus(null);
+            }}
+            onBlur={() => onChange({ proxyUrl: proxyUrl.trim() })}
+            disabled={settings.proxyMode === 'off'}
+            placeholder="/proxy"
+            className="flex-1 min-w-[12rem] px-4 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+          />
+          <button
+            onClick={testProxy}
+            disabled={settings.proxyMode === 'off' || proxyStatus === 'checking'}
+            className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 flex items-center space-x-2"
+          >
+            {proxyStatus === 'up' && <Check className="w-4 h-4 text-green-500" />}
+            {proxyStatus === 'down' && <X className="w-4 h-4 text-red-500" />}
+            <span>{proxyStatus === 'checking' ? 'Checking…' : 'Test'}</span>
+          </button>
+        </div>
+        <p className="mt-2 text-sm text-gray-500">
+          The proxy fetches files server-side, so CORS doesn’t apply and it can add the cookies or headers
+          configured for each host in <span className="font-mono">mediadrop-proxy.json</span>. It only fetches
+          from hosts listed in that file’s <span className="font-mono">allowHosts</span>.
+          {' '}<span className="font-mono">npm run dev</span> serves it at <span className="font-mono">/proxy</span>;
+          {' '}<span className="font-mono">npm run proxy</span> runs it on its own at port 8787.
+        </p>
+      </section>
+    </div>
+  );
+}
+
+export default SettingsPanel;
@@ -0,0 +1,55 @@
+import { useEffect } from 'react';
+import { X } from 'lucide-react';
+import { SHORTCUTS } from '../lib/shortcuts';
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || e.key === '?') {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Keyboard shortcuts</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <dl className="px-6 py-4 space-y-2 text-sm">
+          {SHORTCUTS.map(shortcut => (
+            <div key={shortcut.description} className="flex items-center justify-between">
+              <dt className="text-gray-600">{shortcut.description}</dt>
+              <dd className="flex space-x-1 ml-4 shrink-0">
+                {shortcut.keys.map(key => (
+                  <kbd key={key} className="px-2 py-0.5 bg-gray-100 border border-gray-300 rounded text-xs font-mono text-gray-700">
+                    {key}
+                  </kbd>
+                ))}
+              </dd>
+            </div>
+          ))}
+        </dl>
+        <p className="px-6 pb-6 text-xs text-gray-500">
+          With nothing selected, actions apply to the focused item. Shift-click a checkbox to select a range.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default ShortcutHelp;
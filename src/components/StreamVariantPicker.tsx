@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import type { StreamFormat, StreamVariant } from '../lib/stream';
+
+interface StreamVariantPickerProps {
+  format: StreamFormat;
+  manifestUrl: string;
+  variants: StreamVariant[];
+  onConfirm: (variant: StreamVariant) => void;
+  onCancel: () => void;
+}
+
+function StreamVariantPicker({ format, manifestUrl, variants, onConfirm, onCancel }: StreamVariantPickerProps) {
+  const [selectedId, setSelectedId] = useState(variants[0]?.id);
+  const selected = variants.find(variant => variant.id === selectedId);
+
+  return (
+    <div className="fixed inset-0 z-20 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="min-w-0">
+            <h2 className="text-xl font-semibold text-gray-900">Choose quality</h2>
+            <p className="text-sm text-gray-500 truncate" title={manifestUrl}>
+              {format === 'hls' ? 'HLS playlist' : 'DASH manifest'} · {manifestUrl}
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {variants.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">No downloadable renditions found</p>
+        ) : (
+          <ul className="flex-1 overflow-y-auto px-6 py-3 space-y-1">
+            {variants.map(variant => (
+              <li key={variant.id}>
+                <label className="flex items-center space-x-3 p-2 rounded-lg hover:bg-gray-50">
+                  <input
+                    type="radio"
+                    name="stream-variant"
+                    checked={variant.id === selectedId}
+                    onChange={() => setSelectedId(variant.id)}
+                  />
+                  <span className="flex-1 text-gray-900">{variant.label}</span>
+                  {variant.width && variant.height && (
+                    <span className="text-xs text-gray-500">{variant.width}×{variant.height}</span>
+                  )}
+                  {variant.codecs && <span className="text-xs text-gray-400 font-mono">{variant.codecs}</span>}
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {format === 'dash' && (
+          <p className="px-6 text-xs text-gray-500">
+            DASH usually keeps audio and video in separate renditions; each downloads as its own file.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => selected && onConfirm(selected)}
+            disabled={!selected}
+            className="px-6 py-2 bg-gradient-to-r from-blue-500 to-purple-600 text-white rounded-lg hover:from-blue-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 flex items-center space-x-2"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add to queue</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default StreamVariantPicker;
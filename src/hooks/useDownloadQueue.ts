@@ -0,0 +1,423 @@
+import { useEffect, useMemo, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { HistoryStatus, MediaItem, MediaStatus, Settings } from '../types';
+import { DownloadScheduler, type StatusInfo } from '../lib/scheduler';
+import { canResume, createPartial, fetchMedia, saveBlob, type ChunkSink, type PartialDownload } from '../lib/download';
+import { fetchStream } from '../lib/stream';
+import { availablePath, getFileHandle, hasWritePermission, openFileSink, removeFile, writeFile, type FileSink } from '../lib/fileSystem';
+import { IntegrityError, describeUnconfirmed, hashStream, parseChecksum, verifyChecksums, type Checksum } from '../lib/integrity';
+import { createProxyFetch } from '../lib/proxy';
+import { TransferMeter } from '../lib/progress';
+import { outputExtension, outputFor, processImage } from '../lib/imageOutput';
+import { checkResponse, checkSize, checkType, hostKey, policyFor } from '../lib/hostPolicy';
+import { sha256Hex } from '../lib/sha256';
+import { DownloadError, idleTimeout, toFailure, type DownloadDiagnostics, type DownloadFailure } from '../lib/errors';
+import { deletePartial, loadPartial, savePartial } from '../lib/db';
+import { withExtension, type DetectedMedia } from '../lib/media';
+import { dedupeFilename, flattenFilename, renderFilename, takenFilenames } from '../lib/filename';
+
+const RETRY_BASE_DELAY = 1000;
+// Give up on a transfer that hasn't produced a response or bytes for this long.
+const STALL_TIMEOUT = 60_000;
+// Progress from all running downloads is applied in one state update this often.
+const PROGRESS_INTERVAL = 250;
+
+interface UseDownloadQueueOptions {
+  mediaItems: MediaItem[];
+  setMediaItems: Dispatch<SetStateAction<MediaItem[]>>;
+  settings: Settings;
+  /** Folder to stream files into; null to use the browser's downloads. */
+  directory: FileSystemDirectoryHandle | null;
+  /** Called once per item when it completes, fails for good or is cancelled. */
+  onFinished: (item: MediaItem, outcome: DownloadOutcome) => void;
+  /** Looks up an earlier download with the same content. */
+  findDuplicate: (sha256: string, id: string) => { filename: string; savedTo?: string } | undefined;
+}
+
+export interface DownloadOutcome {
+  status: HistoryStatus;
+  /** Where the file ended up; only set for completed downloads. */
+  savedTo?: string;
+  size?: number;
+  duration?: number;
+  sha256?: string;
+  duplicateOf?: string;
+  error?: string;
+}
+
+export const BROWSER_DOWNLOADS = 'Browser downloads';
+
+/**
+ * Wires a DownloadScheduler to the React queue state. With a save folder the
+ * body is streamed straight into a file there; otherwise it is collected and
+ * handed to the browser. Bytes received before a pause or failure are kept
+ * (in the file, or in memory and IndexedDB) so the next attempt can resume
+ * with a Range request.
+ */
+export function useDownloadQueue({
+  mediaItems,
+  setMediaItems,
+  settings,
+  directory,
+  onFinished,
+  findDuplicate,
+}: UseDownloadQueueOptions) {
+  const itemsRef = useRef(mediaItems);
+  const onFinishedRef = useRef(onFinished);
+  const findDuplicateRef = useRef(findDuplicate);
+  const settingsRef = useRef(settings);
+  const directoryRef = useRef(directory);
+
+  useEffect(() => {
+    itemsRef.current = mediaItems;
+    onFinishedRef.current = onFinished;
+    findDuplicateRef.current = findDuplicate;
+    settingsRef.current = settings;
+    directoryRef.current = directory;
+  });
+
+  const partials = useRef(new Map<string, PartialDownload>());
+  // When each item's first attempt started, for the history's duration.
+  const startedAt = useRef(new Map<string, number>());
+  // Why each item's latest attempt failed, picked up by onStatus.
+  const failures = useRef(new Map<string, DownloadFailure>());
+  // Hosts the scheduler has paused for failing too often.
+  const [pausedHosts, setPausedHosts] = useState<string[]>([]);
+
+  const { scheduler, discardPartial } = useMemo(() => {
+    const discardPartial = (id: string, removeWrittenFile = false) => {
+      const partial = partials.current.get(id);
+      partials.current.delete(id);
+      deletePartial(id).catch(err => console.error('Failed to drop partial download:', err));
+      if (removeWrittenFile && partial?.path && directoryRef.current) {
+        removeFile(directoryRef.current, partial.path)
+          .catch(err => console.error('Failed to remove partial file:', err));
+      }
+    };
+
+    const getPartial = async (item: MediaItem) => {
+      const cached = partials.current.get(item.id);
+      if (cached) return cached;
+      const stored = await loadPartial(item.id).catch(() => null);
+      const partial = stored && stored.url === item.url ? stored : createPartial(item.url);
+      partials.current.set(item.id, partial);
+      return partial;
+    };
+
+    const updateItem = (id: string, patch: Partial<MediaItem>) => {
+      setMediaItems(prev => prev.map(i => (i.id === id ? { ...i, ...patch } : i)));
+    };
+
+    // Chunks arrive far faster than is worth rendering, so progress is
+    // collected here and flushed for every item at once.
+    let pendingProgress = new Map<string, Partial<MediaItem>>();
+    let flushTimer: number | undefined;
+    const flushProgress = () => {
+      flushTimer = undefined;
+      const updates = pendingProgress;
+      pendingProgress = new Map();
+      if (updates.size === 0) return;
+      setMediaItems(prev => prev.map(i => (updates.has(i.id) ? { ...i, ...updates.get(i.id) } : i)));
+    };
+    const reportProgress = (id: string, patch: Partial<MediaItem>) => {
+      pendingProgress.set(id, patch);
+      flushTimer ??= window.setTimeout(flushProgress, PROGRESS_INTERVAL);
+    };
+
+    const attempt = async (
+      id: string,
+      signal: AbortSignal,
+      touch: () => void,
+      diagnostics: DownloadDiagnostics
+    ) => {
+      const item = itemsRef.current.find(i => i.id === id);
+      if (!item) throw new Error(`Unknown queue item ${id}`);
+
+      if (!startedAt.current.has(id)) startedAt.current.set(id, Date.now());
+      const partial = await getPartial(item);
+      let downloaded = item;
+      diagnostics.url = item.stream?.manifestUrl ?? item.url;
+
+      const folder = directoryRef.current && (await hasWritePermission(directoryRef.current))
+        ? directoryRef.current
+        : null;
+      // Bytes kept for the other destination are no use to this one.
+      if (Boolean(partial.path) !== Boolean(folder) || (partial.path && partial.path !== item.filename)) {
+        Object.assign(partial, createPartial(item.url), { path: undefined });
+      }
+
+      // The file is opened on the first write, so detection has had a chance
+      // to settle the name by then.
+      let fileSink: FileSink | null = null;
+      const resumable = item.stream
+        ? partial.segmentIndex !== undefined && partial.received > 0
+        : canResume(partial);
+      let resumeAt = resumable ? partial.received : 0;
+      const openSink = async () => {
+        if (!fileSink && folder) {
+          // Only a file this item made may be written over; anything else
+          // already in the folder keeps its name and the download takes a new one.
+          if (partial.path !== downloaded.filename) {
+            const path = await availablePath(folder, downloaded.filename, takenFilenames(itemsRef.current, id));
+            if (path !== downloaded.filename) {
+              downloaded = { ...downloaded, filename: path };
+              updateItem(id, { filename: path });
+            }
+          }
+          partial.path = downloaded.filename;
+          fileSink = await openFileSink(folder, downloaded.filename, resumeAt);
+        }
+        return fileSink;
+      };
+      const sink: ChunkSink | undefined = folder ? {
+        write: async chunk => (await openSink())!.write(chunk),
+        reset: async () => {
+          resumeAt = 0;
+          await fileSink?.reset();
+        },
+      } : undefined;
+
+      const policy = policyFor(item.url, settingsRef.current.hostPolicies);
+      const meter = new TransferMeter();
+      const onProgress = (received: number, total: number) => {
+        touch();
+        checkSize(received, policy);
+        diagnostics.received = received;
+        diagnostics.total = total;
+        meter.sample(received);
+        reportProgress(id, {
+          received,
+          size: total > 0 ? total : undefined,
+          progress: total > 0 ? Math.min(100, (received / total) * 100) : undefined,
+          speed: meter.speed,
+          eta: meter.eta(received, total),
+        });
+      };
+
+      const onResponse = (response: Response) => {
+        touch();
+        Object.assign(diagnostics, {
+          responseUrl: response.url || undefined,
+          status: response.status,
+          statusText: response.statusText,
+          headers: Object.fromEntries(response.headers),
+          firstResponseAt: diagnostics.firstResponseAt ?? Date.now(),
+        });
+        // Stream playlists and segments have their own types; only the total size applies.
+        if (!item.stream) checkResponse(response, policy);
+      };
+
+      const { proxyMode, proxyUrl } = settingsRef.current;
+      const fetchImpl = createProxyFetch(proxyMode, proxyUrl);
+
+      const onDetect = (detected: DetectedMedia) => {
+        checkType(detected.mime, policy);
+        const items = itemsRef.current;
+        const current = items.find(i => i.id === id) ?? downloaded;
+        // Images that will be converted are named for what they'll become.
+        const extension = detected.type === 'image'
+          ? outputExtension(outputFor(current, settingsRef.current.imageOutput)) ?? detected.extension
+          : detected.extension;
+        const named = current.filenameEdited
+          ? withExtension(current.filename, extension)
+          : renderFilename(settingsRef.current.filenameTemplate, {
+            url: item.url,
+            type: detected.type,
+            extension,
+            index: items.indexOf(current) + 1,
+            date: current.addedAt === undefined ? undefined : new Date(current.addedAt),
+            originalName: detected.filename,
+          });
+        const filename = dedupeFilename(named, takenFilenames(items, id));
+        downloaded = { ...current, type: detected.type, mime: detected.mime, filename };
+        updateItem(id, { type: detected.type, mime: detected.mime, filename });
+      };
+
+      // A stream's extension is only a guess until its media playlist is read.
+      const onExtension = (extension: string) => {
+        const current = itemsRef.current.find(i => i.id === id) ?? downloaded;
+        if (partial.received > 0 || current.filename === withExtension(current.filename, extension)) return;
+        const filename = dedupeFilename(withExtension(current.filename, extension), takenFilenames(itemsRef.current, id));
+        downloaded = { ...current, filename };
+        updateItem(id, { filename });
+      };
+
+      let blob: Blob | null;
+      try {
+        blob = item.stream
+          ? await fetchStream(item.stream, { signal, partial, sink, onProgress, onResponse, onExtension, fetch: fetchImpl })
+          : await fetchMedia(item.url, { signal, partial, sink, onProgress, onDetect, onResponse, fetch: fetchImpl });
+        // An empty body never triggers a write; still leave an empty file behind.
+        await (await openSink())?.close();
+      } catch (error) {
+        // Keep what we have so a retry or resume can pick up where this left off.
+        // A file sink has to be closed, not aborted, for its bytes to stick.
+        await (fileSink as FileSink | null)?.close().catch(() => undefined);
+        if (partial.received > 0) {
+          savePartial(id, partial).catch(err => console.error('Failed to save partial download:', err));
+        }
+        throw error;
+      }
+
+      // Hash what actually landed, so bytes from earlier attempts are covered too.
+      const current = itemsRef.current.find(i => i.id === id) ?? downloaded;
+      const expected = [
+        current.expectedChecksum ? parseChecksum(current.expectedChecksum) : null,
+        partial.checksum ?? null,
+      ].filter((checksum): checksum is Checksum => checksum !== null);
+      const stored = folder ? await (await getFileHandle(folder, downloaded.filename, false)).getFile() : blob;
+      const digests = stored
+        ? await hashStream(stored.stream(), expected.some(checksum => checksum.algorithm === 'md5'))
+        : null;
+      let unconfirmed: Checksum[] = [];
+      try {
+        if (digests) unconfirmed = verifyChecksums(digests, expected);
+      } catch (error) {
+        // Don't leave bytes we know are wrong in the save folder.
+        discardPartial(id, true);
+        throw error;
+      }
+
+      let size = stored?.size ?? partial.received;
+      let sha256 = digests?.sha256;
+      // Checksums describe the file as served, so images are only converted
+      // or stripped once they've been checked.
+      if (stored && downloaded.type === 'image') {
+        const { imageOutput, stripMetadata } = settingsRef.current;
+        const processed = await processImage(stored, downloaded.mime, outputFor(current, imageOutput), stripMetadata)
+          .catch(error => {
+            discardPartial(id, true);
+            throw error;
+          });
+        if (processed !== stored) {
+          if (folder) await writeFile(folder, downloaded.filename, processed);
+          else blob = processed;
+          size = processed.size;
+          sha256 = sha256Hex(new Uint8Array(await processed.arrayBuffer()));
+        }
+      }
+
+      const savedTo = folder ? `${folder.name}/${downloaded.filename}` : BROWSER_DOWNLOADS;
+      const duplicate = sha256 ? findDuplicateRef.current(sha256, id) : undefined;
+      // The copy in the folder is always one this item made, so skipping removes only that.
+      const skip = Boolean(duplicate) && settingsRef.current.duplicates === 'skip';
+
+      discardPartial(id, skip);
+      if (!folder && blob && !skip) saveBlob(blob, flattenFilename(downloaded.filename));
+      downloaded = { ...downloaded, sha256, duplicateOf: duplicate?.filename };
+      const checksumWarning = unconfirmed.map(describeUnconfirmed).join('; ') || undefined;
+      updateItem(id, { sha256, duplicateOf: duplicate?.filename, checksumWarning, size, received: size });
+      finish(downloaded, {
+        status: 'completed',
+        savedTo: skip ? undefined : savedTo,
+        size,
+        sha256,
+        duplicateOf: duplicate?.filename,
+      });
+    };
+
+    const run = async (id: string, signal: AbortSignal) => {
+      const idle = idleTimeout(STALL_TIMEOUT, signal);
+      const diagnostics: DownloadDiagnostics = { url: '', received: 0, total: 0, startedAt: Date.now(), failedAt: 0 };
+      try {
+        await attempt(id, idle.signal, idle.touch, diagnostics);
+        failures.current.delete(id);
+      } catch (error) {
+        failures.current.set(id, {
+          ...toFailure(error, idle.signal),
+          diagnostics: { ...diagnostics, failedAt: Date.now() },
+        });
+        // Hand the scheduler the classified reason so it knows whether a retry can help.
+        throw idle.signal.reason instanceof DownloadError ? idle.signal.reason : error;
+      } finally {
+        idle.clear();
+      }
+    };
+
+    const finish = (item: MediaItem, outcome: DownloadOutcome) => {
+      const started = startedAt.current.get(item.id);
+      startedAt.current.delete(item.id);
+      onFinishedRef.current(item, {
+        ...outcome,
+        duration: started === undefined ? undefined : Date.now() - started,
+      });
+    };
+
+    const onStatus = (id: string, status: MediaStatus, info: StatusInfo = {}) => {
+      const final = status === 'error' && info.error instanceof IntegrityError ? 'mismatch' : status;
+      const failed = final === 'error' || final === 'mismatch';
+      const failure = failed ? failures.current.get(id) : undefined;
+      if (failure?.diagnostics) failure.diagnostics.attempts = info.attempts;
+
+      // A progress update still waiting to be flushed is stale now.
+      pendingProgress.delete(id);
+      const patch: Partial<MediaItem> = {
+        status: final,
+        attempts: info.attempts,
+        nextRetryAt: info.nextRetryAt,
+        failure,
+        speed: undefined,
+        eta: undefined,
+      };
+      if (status === 'completed') patch.progress = 100;
+      // An error with a retry scheduled isn't final yet.
+      if ((status === 'error' && !info.nextRetryAt) || status === 'cancelled') {
+        const item = itemsRef.current.find(i => i.id === id);
+        const received = partials.current.get(id)?.received;
+        if (item && startedAt.current.has(id)) {
+          finish(item, { status: final as DownloadOutcome['status'], size: received, error: failure?.message });
+        }
+      }
+      if (status === 'cancelled') {
+        patch.progress = 0;
+        patch.received = undefined;
+        discardPartial(id, true);
+      }
+      updateItem(id, patch);
+    };
+
+    const scheduler = new DownloadScheduler({
+      concurrency: settings.concurrency,
+      maxRetries: settings.maxRetries,
+      retryBaseDelay: RETRY_BASE_DELAY,
+      run,
+      onStatus,
+      limitsFor: id => {
+        const item = itemsRef.current.find(i => i.id === id);
+        return item && policyFor(item.url, settingsRef.current.hostPolicies);
+      },
+      onHostPaused: (host, paused) => setPausedHosts(prev =>
+        paused ? [...prev.filter(h => h !== host), host] : prev.filter(h => h !== host)
+      ),
+    });
+
+    return { scheduler, discardPartial };
+    // The scheduler lives for the component's lifetime; settings are pushed below.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [setMediaItems]);
+
+  useEffect(() => {
+    scheduler.configure({ concurrency: settings.concurrency, maxRetries: settings.maxRetries });
+  }, [scheduler, settings.concurrency, settings.maxRetries]);
+
+  return useMemo(() => ({
+    enqueue: (id: string) => scheduler.enqueue(id),
+    pause: (id: string) => scheduler.pause(id),
+    resume: (id: string) => scheduler.resume(id),
+    cancel: (id: string) => scheduler.cancel(id),
+    retry: (id: string) => scheduler.retry(id),
+    remove: (id: string) => {
+      scheduler.remove(id);
+      startedAt.current.delete(id);
+      failures.current.delete(id);
+      discardPartial(id, true);
+    },
+    pausedHosts,
+    /** Starts the host's paused downloads again. */
+    resumeHost: (host: string) => {
+      scheduler.resumeHost(host);
+      itemsRef.current
+        .filter(item => item.status === 'paused' && hostKey(item.url) === host)
+        .forEach(item => scheduler.enqueue(item.id));
+    },
+  }), [scheduler, discardPartial, pausedHosts]);
+}
@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import type { DownloadHistory, MediaItem } from '../types';
+import { loadHistory, loadMediaItems, saveHistory, saveMediaItems } from '../lib/db';
+
+const SAVE_DELAY_MS = 300;
+// Progress arrives more often than SAVE_DELAY_MS while downloading, which would
+// put the save off for the whole run without a cap.
+const SAVE_MAX_WAIT_MS = 2000;
+
+interface PendingSave {
+  timer?: number;
+  since?: number;
+}
+
+// Debounces `save`, but runs it no later than SAVE_MAX_WAIT_MS after the first
+// change it's holding back.
+const scheduleSave = (pending: PendingSave, save: () => void) => {
+  window.clearTimeout(pending.timer);
+  pending.since ??= Date.now();
+  const wait = Math.min(SAVE_DELAY_MS, Math.max(0, pending.since + SAVE_MAX_WAIT_MS - Date.now()));
+  pending.timer = window.setTimeout(() => {
+    pending.timer = undefined;
+    pending.since = undefined;
+    save();
+  }, wait);
+};
+
+/**
+ * Restores the queue and history from IndexedDB on mount and writes them back
+ * whenever they change. Writes are debounced so per-chunk progress updates
+ * don't turn into a transaction each, but still land every couple of seconds.
+ */
+export function usePersistence(
+  mediaItems: MediaItem[],
+  setMediaItems: Dispatch<SetStateAction<MediaItem[]>>,
+  downloadHistory: DownloadHistory[],
+  setDownloadHistory: Dispatch<SetStateAction<DownloadHistory[]>>
+) {
+  const [hydrated, setHydrated] = useState(false);
+  const itemsSave = useRef<PendingSave>({});
+  const historySave = useRef<PendingSave>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadMediaItems(), loadHistory()])
+      .then(([items, history]) => {
+        if (cancelled) return;
+        // Anything added before the load finished goes after the restored queue.
+        setMediaItems(prev => [
+          ...items,
+          ...prev.filter(item => !items.some(stored => stored.url === item.url)),
+        ]);
+        setDownloadHistory(prev => [...prev, ...history]);
+      })
+      .catch(err => console.error('Failed to restore saved queue:', err))
+      .finally(() => {
+        if (!cancelled) setHydrated(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [setMediaItems, setDownloadHistory]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    scheduleSave(itemsSave.current, () => {
+      saveMediaItems(mediaItems).catch(err => console.error('Failed to save queue:', err));
+    });
+  }, [hydrated, mediaItems]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    scheduleSave(historySave.current, () => {
+      saveHistory(downloadHistory).catch(err => console.error('Failed to save history:', err));
+    });
+  }, [hydrated, downloadHistory]);
+
+  return hydrated;
+}
@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import type { MediaItem } from '../types';
+import { notify } from '../lib/pwa';
+
+// A run of downloads is "long" once it covers this many items or takes this long.
+export const LONG_QUEUE_ITEMS = 5;
+const LONG_QUEUE_MS = 60_000;
+
+const isRunning = (item: MediaItem) =>
+  item.status === 'queued' || item.status === 'downloading' || (item.status === 'error' && Boolean(item.nextRetryAt));
+
+/**
+ * Shows a system notification when a long run of downloads settles while the
+ * page isn't focused. A run starts when something is queued and ends when
+ * nothing is queued, downloading or waiting to retry.
+ */
+export function useQueueNotifications(mediaItems: MediaItem[]) {
+  const run = useRef<{ startedAt: number; ids: Set<string> } | null>(null);
+
+  useEffect(() => {
+    const running = mediaItems.filter(isRunning);
+    if (running.length > 0) {
+      run.current ??= { startedAt: Date.now(), ids: new Set() };
+      running.forEach(item => run.current!.ids.add(item.id));
+      return;
+    }
+
+    const finished = run.current;
+    run.current = null;
+    if (!finished || document.hasFocus()) return;
+    if (finished.ids.size < LONG_QUEUE_ITEMS && Date.now() - finished.startedAt < LONG_QUEUE_MS) return;
+
+    const items = mediaItems.filter(item => finished.ids.has(item.id));
+    const count = (...statuses: MediaItem['status'][]) => items.filter(item => statuses.includes(item.status)).length;
+    const failed = count('error', 'mismatch');
+    const paused = count('paused');
+    notify(
+      'Downloads finished',
+      `${count('completed')} of ${items.length} saved${failed ? `, ${failed} failed` : ''}${paused ? `, ${paused} paused` : ''}`
+    );
+  }, [mediaItems]);
+}
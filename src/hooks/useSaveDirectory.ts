@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useState } from 'react';
+import { deleteMeta, getMeta, setMeta } from '../lib/db';
+import { canPickDirectory, hasWritePermission, pickDirectory } from '../lib/fileSystem';
+
+const META_KEY = 'saveDirectory';
+
+/**
+ * The folder downloads are written into, if the user picked one. The handle
+ * is kept in IndexedDB; after a reload the browser usually wants permission
+ * confirmed again, which `reconnect` asks for.
+ */
+export function useSaveDirectory() {
+  const [directory, setDirectory] = useState<FileSystemDirectoryHandle | null>(null);
+  const [granted, setGranted] = useState(false);
+
+  useEffect(() => {
+    if (!canPickDirectory()) return;
+    getMeta<FileSystemDirectoryHandle>(META_KEY)
+      .then(async handle => {
+        if (!handle) return;
+        setDirectory(handle);
+        setGranted(await hasWritePermission(handle));
+      })
+      .catch(err => console.error('Failed to restore save folder:', err));
+  }, []);
+
+  const choose = useCallback(async () => {
+    try {
+      const handle = await pickDirectory();
+      if (!handle) return;
+      setDirectory(handle);
+      setGranted(true);
+      await setMeta(META_KEY, handle);
+    } catch (err) {
+      console.error('Failed to choose save folder:', err);
+    }
+  }, []);
+
+  const reconnect = useCallback(async () => {
+    if (!directory) return;
+    setGranted(await hasWritePermission(directory, true));
+  }, [directory]);
+
+  const clear = useCallback(async () => {
+    setDirectory(null);
+    setGranted(false);
+    await deleteMeta(META_KEY).catch(err => console.error('Failed to forget save folder:', err));
+  }, []);
+
+  return { directory, granted, supported: canPickDirectory(), choose, reconnect, clear };
+}
+
+export type SaveDirectory = ReturnType<typeof useSaveDirectory>;
@@ -0,0 +1,41 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+/**
+ * Tracks which queue items are selected. Shift-toggling selects everything
+ * between the last toggled item and this one. Ids that leave `items` drop
+ * out of the selection on their own.
+ */
+export function useSelection(items: { id: string }[]) {
+  const [chosen, setChosen] = useState<ReadonlySet<string>>(new Set());
+  const anchor = useRef<string | null>(null);
+
+  const selected = useMemo(() => {
+    const live = new Set(items.map(item => item.id));
+    return new Set([...chosen].filter(id => live.has(id)));
+  }, [items, chosen]);
+
+  const toggle = useCallback((id: string, range = false) => {
+    const ids = items.map(item => item.id);
+    const from = anchor.current ? ids.indexOf(anchor.current) : -1;
+    const to = ids.indexOf(id);
+    if (range && from >= 0 && to >= 0) {
+      const between = ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+      setChosen(prev => new Set([...prev, ...between]));
+    } else {
+      setChosen(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+      });
+    }
+    anchor.current = id;
+  }, [items]);
+
+  const setAll = useCallback((selectAll: boolean) => {
+    setChosen(selectAll ? new Set(items.map(item => item.id)) : new Set());
+    anchor.current = null;
+  }, [items]);
+
+  return { selected, toggle, setAll };
+}
@@ -0,0 +1,17 @@
+import { useCallback, useState } from 'react';
+import type { Settings } from '../types';
+import { loadSettings, saveSettings } from '../lib/settings';
+
+export function useSettings() {
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+
+  const updateSettings = useCallback((patch: Partial<Settings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveSettings(next);
+      return next;
+    });
+  }, []);
+
+  return [settings, updateSettings] as const;
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import { isTextEntry, matchShortcut, type ShortcutAction } from '../lib/shortcuts';
+
+interface UseShortcutsOptions {
+  /** Off while a dialog that handles its own keys is open. */
+  enabled: boolean;
+  onAction: (action: ShortcutAction) => void;
+  /** Text or HTML pasted anywhere outside a text field. */
+  onPaste: (content: string) => void;
+}
+
+/** Listens for the queue's keyboard shortcuts across the whole page. */
+export function useShortcuts({ enabled, onAction, onPaste }: UseShortcutsOptions) {
+  const latest = useRef({ enabled, onAction, onPaste });
+
+  useEffect(() => {
+    latest.current = { enabled, onAction, onPaste };
+  });
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!latest.current.enabled || e.defaultPrevented || isTextEntry(e.target)) return;
+      const action = matchShortcut(e);
+      if (!action) return;
+      // Enter and Space already mean "press" on a focused button or link, and
+      // Space ticks a focused checkbox itself.
+      const pressable = e.target instanceof HTMLElement && ['BUTTON', 'A'].includes(e.target.tagName);
+      if (pressable && (action === 'download' || action === 'toggleSelect')) return;
+      const checkbox = e.target instanceof HTMLInputElement && e.target.type === 'checkbox';
+      if (checkbox && action === 'toggleSelect') return;
+      e.preventDefault();
+      latest.current.onAction(action);
+    };
+
+    const onDocumentPaste = (e: ClipboardEvent) => {
+      if (!latest.current.enabled || isTextEntry(e.target)) return;
+      const content = e.clipboardData?.getData('text/html') || e.clipboardData?.getData('text');
+      if (!content) return;
+      e.preventDefault();
+      latest.current.onPaste(content);
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    document.addEventListener('paste', onDocumentPaste);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      document.removeEventListener('paste', onDocumentPaste);
+    };
+  }, []);
+}
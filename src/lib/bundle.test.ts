@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import type { MediaItem } from '../types';
+import { bundleToZip } from './bundle';
+import type { HostPolicy } from './hostPolicy';
+import { startFileServer, type FileServer } from './testServer';
+import segments from './__fixtures__/segments.m3u8?raw';
+import byterange from './__fixtures__/byterange.m3u8?raw';
+
+const PNG = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...new Array(56).fill(0)]);
+
+const item = (url: string): MediaItem => ({
+  id: url,
+  url,
+  type: 'other',
+  filename: url.split('/').pop()!,
+  status: 'pending',
+});
+
+const policy = (host: string, limits: Partial<HostPolicy>): HostPolicy => ({
+  host,
+  maxConnections: 0,
+  minDelay: 0,
+  maxFileSize: 0,
+  allowedTypes: [],
+  pauseAfterFailures: 0,
+  ...limits,
+});
+
+// Serves every URL with `body` and `headers`, sent in a stream so no length is known up front.
+const serve = (body: Uint8Array, headers: Record<string, string> = {}) => (async () =>
+  new Response(new Blob([body]).stream(), { headers })) as typeof fetch;
+
+const bundle = async (items: MediaItem[], fetchImpl: typeof fetch, hostPolicies: HostPolicy[]) =>
+  bundleToZip(items, new WritableStream(), { includeManifest: false, fetch: fetchImpl, hostPolicies });
+
+describe('bundleToZip', () => {
+  it('skips files larger than the host allows', async () => {
+    const [big, other] = await bundle(
+      [item('https://a.example/big.bin'), item('https://b.example/big.bin')],
+      serve(new Uint8Array(2048)),
+      [policy('a.example', { maxFileSize: 1024 })]
+    );
+    expect(big.error).toMatch(/larger than/);
+    expect(other.error).toBeUndefined();
+    expect(other.size).toBe(2048);
+  });
+
+  it('skips files whose declared type the host does not allow', async () => {
+    const [entry] = await bundle(
+      [item('https://a.example/page')],
+      serve(new Uint8Array(10), { 'content-type': 'text/html' }),
+      [policy('a.example', { allowedTypes: ['image/*'] })]
+    );
+    expect(entry.error).toBe("text/html files aren't allowed from a.example");
+  });
+
+  it('checks the sniffed type when the declared one is generic', async () => {
+    const images = [policy('a.example', { allowedTypes: ['image/*'] })];
+    const video = [policy('a.example', { allowedTypes: ['video/*'] })];
+    const headers = { 'content-type': 'application/octet-stream' };
+
+    const [allowed] = await bundle([item('https://a.example/file')], serve(PNG, headers), images);
+    const [refused] = await bundle([item('https://a.example/file')], serve(PNG, headers), video);
+    expect(allowed.error).toBeUndefined();
+    expect(refused.error).toBe("image/png files aren't allowed from a.example");
+  });
+});
+
+describe('bundleToZip with streams', () => {
+  let server: FileServer;
+
+  beforeAll(async () => {
+    server = await startFileServer();
+    server.files.set('/show/index.m3u8', { body: segments });
+    server.files.set('/show/seg0.ts', { body: 'aaaa' });
+    server.files.set('/show/seg1.ts', { body: 'bbbb' });
+    server.files.set('/show/seg2.ts', { body: 'cc' });
+    server.files.set('/show/main.m3u8', { body: byterange });
+    server.files.set('/show/main.mp4', { body: 'x'.repeat(3420) });
+  });
+
+  afterAll(() => server.close());
+
+  const streamItem = (path: string, filename: string): MediaItem => ({
+    ...item(server.url(path)),
+    type: 'video',
+    filename,
+    stream: { format: 'hls', manifestUrl: server.url(path), variantId: 'v0', label: 'Default' },
+  });
+
+  // Collects the archive, read as Latin-1 so its bytes can be searched as text.
+  const archive = async (items: MediaItem[]) => {
+    const chunks: Uint8Array[] = [];
+    const manifest = await bundleToZip(items, new WritableStream({ write: chunk => void chunks.push(chunk) }), {
+      includeManifest: false,
+    });
+    const bytes = new Uint8Array(await new Blob(chunks).arrayBuffer());
+    return { manifest, text: new TextDecoder('latin1').decode(bytes) };
+  };
+
+  it('stores the joined segments rather than the playlist', async () => {
+    const { manifest, text } = await archive([streamItem('/show/index.m3u8', 'show.ts')]);
+    expect(manifest[0]).toMatchObject({ filename: 'show.ts', size: 10 });
+    expect(manifest[0].error).toBeUndefined();
+    expect(text).toContain('aaaabbbbcc');
+    expect(text).not.toContain('#EXTM3U');
+  });
+
+  it('names an fMP4 rendition for what it holds', async () => {
+    const { manifest } = await archive([streamItem('/show/main.m3u8', 'show.ts')]);
+    expect(manifest[0]).toMatchObject({ filename: 'show.mp4', size: 3420 });
+  });
+
+  it('reports a stream that fails', async () => {
+    const { manifest } = await archive([streamItem('/show/missing.m3u8', 'gone.ts')]);
+    expect(manifest[0]).toMatchObject({ filename: 'gone.ts', size: 0, error: 'HTTP 404 Not Found for the manifest' });
+  });
+});
@@ -0,0 +1,171 @@
+import type { MediaItem } from '../types';
+import { openMediaStream } from './download';
+import { dedupeFilename } from './filename';
+import { checkResponse, checkSize, checkType, policyFor, type HostPolicy } from './hostPolicy';
+import { ORIGINAL_OUTPUT, processImage, type ImageOutput } from './imageOutput';
+import { detectMedia, withExtension } from './media';
+import { Sha256 } from './sha256';
+import { fetchStream, type FetchStreamOptions, type StreamSelection } from './stream';
+import { ZipWriter } from './zip';
+
+export const MANIFEST_NAME = 'manifest.json';
+
+export interface ManifestEntry {
+  url: string;
+  filename: string;
+  size: number;
+  sha256?: string;
+  error?: string;
+}
+
+export interface BundleOptions {
+  includeManifest: boolean;
+  /** Remove EXIF and similar metadata from images on the way in. */
+  stripMetadata?: boolean;
+  /** Output settings to convert each image with. */
+  imageOutput?: (item: MediaItem) => ImageOutput;
+  /** Size and type limits, applied as they are to queued downloads. */
+  hostPolicies?: HostPolicy[];
+  signal?: AbortSignal;
+  fetch?: typeof fetch;
+  onItemStart?: (item: MediaItem, index: number) => void;
+  onItemDone?: (item: MediaItem, entry: ManifestEntry) => void;
+}
+
+// Holds the body to the policy's limits as it streams in: the sniffed type once
+// the first bytes arrive, and the size when no Content-Length gave it away.
+const withinPolicy = (
+  body: ReadableStream<Uint8Array>,
+  url: string,
+  headers: Headers,
+  policy: HostPolicy
+) => {
+  let size = 0;
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      if (size === 0) checkType(detectMedia(url, headers, chunk).mime, policy);
+      size += chunk.length;
+      checkSize(size, policy);
+      controller.enqueue(chunk);
+    },
+  }));
+};
+
+/**
+ * Starts downloading a stream's segments and resolves once its playlist has
+ * been read, with the joined segments as a body and the extension they make.
+ */
+const openStream = (
+  selection: StreamSelection,
+  options: FetchStreamOptions
+): Promise<{ body: ReadableStream<Uint8Array>; extension: string }> =>
+  new Promise((resolve, reject) => {
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    fetchStream(selection, {
+      ...options,
+      onExtension: extension => resolve({ body: readable, extension }),
+      sink: { write: chunk => writer.write(chunk), reset: async () => undefined },
+    })
+      .then(() => writer.close(), error => {
+        reject(error);
+        return writer.abort(error);
+      })
+      .catch(() => undefined);
+  });
+
+/**
+ * Fetches each item and streams it into a single ZIP written to `sink`.
+ * Nothing is buffered beyond the chunk in flight, apart from images being
+ * converted or stripped of metadata. Items that fail are skipped (or left
+ * truncated, if they failed mid-stream) and noted in the manifest.
+ */
+export const bundleToZip = async (
+  items: MediaItem[],
+  sink: WritableStream<Uint8Array>,
+  {
+    includeManifest,
+    stripMetadata,
+    imageOutput,
+    hostPolicies = [],
+    signal,
+    fetch: fetchImpl,
+    onItemStart,
+    onItemDone,
+  }: BundleOptions
+): Promise<ManifestEntry[]> => {
+  const zip = new ZipWriter(sink);
+  const taken = new Set<string>(includeManifest ? [MANIFEST_NAME] : []);
+  const manifest: ManifestEntry[] = [];
+
+  try {
+    for (const [index, item] of items.entries()) {
+      signal?.throwIfAborted();
+      onItemStart?.(item, index);
+
+      let filename: string | undefined;
+      let entry: ManifestEntry;
+      const hash = new Sha256();
+      let size = 0;
+      try {
+        const policy = policyFor(item.url, hostPolicies);
+        let name = item.filename;
+        let source: ReadableStream<Uint8Array> | Uint8Array;
+        if (item.stream) {
+          // Segments have their own types; only the total size applies, as in the queue.
+          const stream = await openStream(item.stream, {
+            signal,
+            fetch: fetchImpl,
+            onProgress: received => checkSize(received, policy),
+          });
+          name = withExtension(item.filename, stream.extension);
+          source = stream.body;
+        } else {
+          const response = await openMediaStream(item.url, { signal, fetch: fetchImpl });
+          checkResponse(response, policy);
+          source = response.body
+            ? withinPolicy(response.body, item.url, response.headers, policy)
+            : new Uint8Array(0);
+        }
+        filename = dedupeFilename(name, taken);
+        if (item.type === 'image' && (stripMetadata || imageOutput)) {
+          // Converting or stripping needs the whole image in hand.
+          const output = imageOutput?.(item) ?? ORIGINAL_OUTPUT;
+          const image = await processImage(await new Response(source).blob(), item.mime, output, Boolean(stripMetadata));
+          source = new Uint8Array(await image.arrayBuffer());
+        }
+        const result = await zip.add(filename, source, {
+          onChunk: chunk => {
+            hash.update(chunk);
+            size += chunk.length;
+          },
+        });
+        entry = { url: item.url, filename, size: result.size, sha256: hash.digestHex() };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        filename ??= dedupeFilename(item.filename, taken);
+        entry = {
+          url: item.url,
+          filename,
+          size,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      manifest.push(entry);
+      onItemDone?.(item, entry);
+    }
+
+    if (includeManifest) {
+      const json = JSON.stringify({ createdAt: new Date().toISOString(), files: manifest }, null, 2);
+      await zip.add(MANIFEST_NAME, new TextEncoder().encode(json));
+    }
+
+    await zip.close();
+  } catch (error) {
+    await zip.abort(error).catch(() => undefined);
+    throw error;
+  }
+
+  return manifest;
+};
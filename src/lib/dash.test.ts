@@ -0,0 +1,71 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { fillTemplate, parseDash, parseDuration } from './dash';
+import template from './__fixtures__/template.mpd?raw';
+import segmentList from './__fixtures__/segment-list.mpd?raw';
+
+const MANIFEST = 'https://example.com/show/manifest.mpd';
+
+describe('parseDuration', () => {
+  it('reads ISO 8601 durations', () => {
+    expect(parseDuration('PT1H2M3.5S')).toBe(3723.5);
+    expect(parseDuration('P1DT30M')).toBe(88200);
+    expect(parseDuration('soon')).toBe(0);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('expands identifiers with optional zero padding', () => {
+    expect(fillTemplate('$RepresentationID$/$Number%05d$-$Unknown$$$.m4s', { RepresentationID: 'hd', Number: 42 }))
+      .toBe('hd/00042-$Unknown$$.m4s');
+  });
+});
+
+describe('parseDash', () => {
+  it('expands a numbered SegmentTemplate over the period', () => {
+    const [high, low] = parseDash(template, MANIFEST);
+    expect(low).toMatchObject({ id: 'low', label: '360p · 500 kbps', kind: 'video', width: 640, extension: 'mp4' });
+    expect(high.init).toEqual({ url: 'https://example.com/show/media/high/init.mp4' });
+    expect(high.segments).toEqual([
+      { url: 'https://example.com/show/media/high/seg-001.m4s' },
+      { url: 'https://example.com/show/media/high/seg-002.m4s' },
+      { url: 'https://example.com/show/media/high/seg-003.m4s' },
+    ]);
+  });
+
+  it('expands a SegmentTimeline, repeats included', () => {
+    const audio = parseDash(template, MANIFEST).find(r => r.kind === 'audio');
+    expect(audio).toMatchObject({ id: 'aac', label: 'Audio · 128 kbps', codecs: 'mp4a.40.2' });
+    expect(audio?.segments.map(segment => segment.url)).toEqual([
+      'https://example.com/show/media/audio/0.m4s',
+      'https://example.com/show/media/audio/96000.m4s',
+      'https://example.com/show/media/audio/192000.m4s',
+    ]);
+  });
+
+  it('skips representations that are neither video nor audio', () => {
+    expect(parseDash(template, MANIFEST).map(r => r.id)).toEqual(['high', 'low', 'aac']);
+  });
+
+  it('reads byte ranges from a SegmentList', () => {
+    const url = 'https://example.com/show/video.webm';
+    expect(parseDash(segmentList, MANIFEST)).toEqual([
+      expect.objectContaining({
+        id: '1',
+        label: '480p · 1000 kbps',
+        extension: 'webm',
+        init: { url, range: { start: 0, end: 499 } },
+        segments: [
+          { url, range: { start: 500, end: 1499 } },
+          { url, range: { start: 1500, end: 2299 } },
+        ],
+      }),
+    ]);
+  });
+
+  it('rejects live and non-DASH documents', () => {
+    expect(() => parseDash(template.replace('type="static"', 'type="dynamic"'), MANIFEST))
+      .toThrow('Live DASH streams are not supported');
+    expect(() => parseDash('<html/>', MANIFEST)).toThrow('Not a DASH manifest');
+  });
+});
@@ -0,0 +1,171 @@
+import type { Segment, StreamVariant } from './stream';
+
+export interface DashRepresentation extends StreamVariant {
+  init?: Segment;
+  segments: Segment[];
+}
+
+/** Converts an ISO 8601 duration such as `PT1H2M3.5S` to seconds. */
+export const parseDuration = (value: string | null): number => {
+  const match = value?.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?)?$/);
+  if (!match) return 0;
+  const [, days, hours, minutes, seconds] = match;
+  return (Number(days) || 0) * 86400 + (Number(hours) || 0) * 3600 + (Number(minutes) || 0) * 60 + (Number(seconds) || 0);
+};
+
+const children = (parent: Element, name: string) =>
+  Array.from(parent.children).filter(child => child.localName === name);
+
+const child = (parent: Element, name: string) => children(parent, name)[0];
+
+const resolveBase = (element: Element, baseUrl: string) => {
+  const base = child(element, 'BaseURL')?.textContent?.trim();
+  return base ? new URL(base, baseUrl).toString() : baseUrl;
+};
+
+const parseRange = (value: string | null): Segment['range'] => {
+  if (!value) return undefined;
+  const [start, end] = value.split('-').map(Number);
+  return { start, end };
+};
+
+/** Expands `$RepresentationID$`, `$Number%05d$`, `$Time$` and `$Bandwidth$`. */
+export const fillTemplate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\$(\w*)(?:%0(\d+)d)?\$/g, (whole, name: string, width?: string) => {
+    if (name === '') return '$';
+    const value = values[name];
+    if (value === undefined) return whole;
+    return width ? String(value).padStart(Number(width), '0') : String(value);
+  });
+
+// SegmentTemplate attributes are inherited from the Period and AdaptationSet.
+const mergedTemplate = (elements: Element[]) => {
+  const templates = elements.map(element => child(element, 'SegmentTemplate')).filter(Boolean);
+  if (templates.length === 0) return null;
+  const attribute = (name: string) => {
+    for (let i = templates.length - 1; i >= 0; i--) {
+      const value = templates[i].getAttribute(name);
+      if (value !== null) return value;
+    }
+    return null;
+  };
+  const timeline = templates.map(template => child(template, 'SegmentTimeline')).filter(Boolean).pop();
+  return { attribute, timeline };
+};
+
+const templateSegments = (
+  template: NonNullable<ReturnType<typeof mergedTemplate>>,
+  baseUrl: string,
+  values: Record<string, string | number>,
+  periodDuration: number
+): { init?: Segment; segments: Segment[] } => {
+  const media = template.attribute('media');
+  if (!media) return { segments: [] };
+  const timescale = Number(template.attribute('timescale')) || 1;
+  const startNumber = Number(template.attribute('startNumber') ?? 1);
+  const initialization = template.attribute('initialization');
+  const init = initialization ? { url: new URL(fillTemplate(initialization, values), baseUrl).toString() } : undefined;
+  const segments: Segment[] = [];
+
+  if (template.timeline) {
+    let time = 0;
+    let number = startNumber;
+    for (const s of children(template.timeline, 'S')) {
+      if (s.getAttribute('t') !== null) time = Number(s.getAttribute('t'));
+      const duration = Number(s.getAttribute('d'));
+      const repeat = Number(s.getAttribute('r') ?? 0);
+      for (let i = 0; i <= repeat; i++) {
+        segments.push({ url: new URL(fillTemplate(media, { ...values, Number: number, Time: time }), baseUrl).toString() });
+        time += duration;
+        number++;
+      }
+    }
+  } else {
+    const duration = Number(template.attribute('duration')) / timescale;
+    const count = duration > 0 ? Math.ceil(periodDuration / duration) : 0;
+    for (let i = 0; i < count; i++) {
+      const number = startNumber + i;
+      segments.push({ url: new URL(fillTemplate(media, { ...values, Number: number }), baseUrl).toString() });
+    }
+  }
+
+  return { init, segments };
+};
+
+const listSegments = (list: Element, baseUrl: string): { init?: Segment; segments: Segment[] } => {
+  const initialization = child(list, 'Initialization');
+  const init = initialization
+    ? {
+      url: new URL(initialization.getAttribute('sourceURL') || '', baseUrl).toString(),
+      range: parseRange(initialization.getAttribute('range')),
+    }
+    : undefined;
+  const segments = children(list, 'SegmentURL').map(segment => ({
+    url: new URL(segment.getAttribute('media') || '', baseUrl).toString(),
+    range: parseRange(segment.getAttribute('mediaRange')),
+  }));
+  return { init, segments };
+};
+
+const extensionFor = (mimeType: string) => (mimeType.includes('webm') ? 'webm' : 'mp4');
+
+/** Lists every Representation in a static MPD with its segments resolved. */
+export const parseDash = (xml: string, manifestUrl: string): DashRepresentation[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const mpd = doc.documentElement;
+  if (!mpd || mpd.localName !== 'MPD') throw new Error('Not a DASH manifest');
+  if (mpd.getAttribute('type') === 'dynamic') throw new Error('Live DASH streams are not supported');
+
+  const totalDuration = parseDuration(mpd.getAttribute('mediaPresentationDuration'));
+  const mpdBase = resolveBase(mpd, manifestUrl);
+  const period = child(mpd, 'Period');
+  if (!period) return [];
+  const periodBase = resolveBase(period, mpdBase);
+  const periodDuration = parseDuration(period.getAttribute('duration')) || totalDuration;
+
+  const representations: DashRepresentation[] = [];
+  for (const adaptation of children(period, 'AdaptationSet')) {
+    const adaptationBase = resolveBase(adaptation, periodBase);
+    for (const representation of children(adaptation, 'Representation')) {
+      const attribute = (name: string) => representation.getAttribute(name) ?? adaptation.getAttribute(name);
+      const mimeType = attribute('mimeType') || '';
+      const contentType = adaptation.getAttribute('contentType') || mimeType.split('/')[0];
+      if (contentType !== 'video' && contentType !== 'audio') continue;
+
+      const id = representation.getAttribute('id') || String(representations.length);
+      const bandwidth = Number(representation.getAttribute('bandwidth')) || undefined;
+      const height = Number(attribute('height')) || undefined;
+      const base = resolveBase(representation, adaptationBase);
+      const values = { RepresentationID: id, Bandwidth: bandwidth ?? 0 };
+
+      const list = child(representation, 'SegmentList') || child(adaptation, 'SegmentList');
+      const template = mergedTemplate([period, adaptation, representation]);
+      const { init, segments } = list
+        ? listSegments(list, base)
+        : template
+          ? templateSegments(template, base, values, periodDuration)
+          : { init: undefined, segments: [{ url: base }] };
+
+      representations.push({
+        id,
+        label: [
+          contentType === 'audio' ? 'Audio' : height ? `${height}p` : 'Video',
+          bandwidth ? `${Math.round(bandwidth / 1000)} kbps` : null,
+        ].filter(Boolean).join(' · '),
+        kind: contentType,
+        bandwidth,
+        width: Number(attribute('width')) || undefined,
+        height,
+        codecs: attribute('codecs') || undefined,
+        extension: extensionFor(mimeType),
+        init,
+        segments,
+      });
+    }
+  }
+
+  return representations.sort((a, b) => {
+    if (a.kind !== b.kind) return a.kind === 'video' ? -1 : 1;
+    return (b.bandwidth ?? 0) - (a.bandwidth ?? 0);
+  });
+};
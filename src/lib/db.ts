@@ -0,0 +1,225 @@
+import type { DownloadHistory, MediaItem } from '../types';
+import type { PartialDownload } from './download';
+
+const DB_NAME = 'mediadrop';
+const DB_VERSION = 3;
+
+export const MEDIA_STORE = 'mediaItems';
+export const HISTORY_STORE = 'history';
+export const PARTIAL_STORE = 'partials';
+export const META_STORE = 'meta';
+
+type StoreName = typeof MEDIA_STORE | typeof HISTORY_STORE | typeof PARTIAL_STORE | typeof META_STORE;
+
+// Object stores are keyed by id, so queue order is kept in a separate field.
+type StoredMediaItem = MediaItem & { position: number };
+
+// Received bytes are flattened into one Blob so IndexedDB can keep them on disk.
+type StoredPartial = Omit<PartialDownload, 'parts'> & { id: string; blob: Blob };
+
+// Each entry upgrades the database from version `index` to `index + 1`.
+// Append new steps here when the schema changes; never edit existing ones.
+const migrations: Array<(db: IDBDatabase, tx: IDBTransaction) => void> = [
+  (db) => {
+    db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+    const history = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    history.createIndex('downloadedAt', 'downloadedAt');
+  },
+  (db) => {
+    db.createObjectStore(PARTIAL_STORE, { keyPath: 'id' });
+  },
+  (db) => {
+    // Out-of-line keys: single values such as the chosen save folder handle.
+    db.createObjectStore(META_STORE);
+  },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const tx = request.transaction;
+      if (!tx) return;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        migrations[version](request.result, tx);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; drop our handle so it isn't blocked.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const readAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readonly');
+  return requestToPromise(tx.objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+const readKeys = async (store: StoreName): Promise<IDBValidKey[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readonly');
+  return requestToPromise(tx.objectStore(store).getAllKeys());
+};
+
+const replaceAll = async <T>(store: StoreName, records: T[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  objectStore.clear();
+  records.forEach(record => objectStore.put(record));
+  await transactionDone(tx);
+};
+
+const reviveDate = (value: unknown): Date => {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    if (!Number.isNaN(date.getTime())) return date;
+  }
+  return new Date();
+};
+
+// The scheduler doesn't survive a reload, so nothing is in flight any more.
+// Interrupted downloads come back paused so they can be resumed by hand.
+const reviveStatus = (item: MediaItem): MediaItem => {
+  switch (item.status) {
+    case 'downloading':
+      return { ...item, status: 'paused', speed: undefined, eta: undefined };
+    case 'queued':
+      return { ...item, status: 'pending' };
+    case 'error':
+      return { ...item, nextRetryAt: undefined };
+    default:
+      return item;
+  }
+};
+
+export const reviveMediaItem = (item: MediaItem, hasPartial = false): MediaItem => {
+  const revived = reviveStatus(item);
+  // Without the bytes received so far, resuming starts over; say so.
+  if (hasPartial || !['paused', 'error'].includes(revived.status)) return revived;
+  return { ...revived, progress: undefined, received: undefined };
+};
+
+export const reviveHistory = (entry: DownloadHistory): DownloadHistory => ({
+  ...entry,
+  downloadedAt: reviveDate(entry.downloadedAt),
+});
+
+export const loadMediaItems = async (): Promise<MediaItem[]> => {
+  const [records, partialIds] = await Promise.all([
+    readAll<StoredMediaItem>(MEDIA_STORE),
+    readKeys(PARTIAL_STORE),
+  ]);
+  const partials = new Set(partialIds);
+  return records
+    .sort((a, b) => a.position - b.position)
+    .map(record => {
+      const item: MediaItem & { position?: number } = { ...record };
+      delete item.position;
+      return reviveMediaItem(item, partials.has(item.id));
+    });
+};
+
+export const loadHistory = async (): Promise<DownloadHistory[]> => {
+  const entries = await readAll<DownloadHistory>(HISTORY_STORE);
+  return entries
+    .map(reviveHistory)
+    .sort((a, b) => b.downloadedAt.getTime() - a.downloadedAt.getTime());
+};
+
+export const saveMediaItems = (items: MediaItem[]): Promise<void> =>
+  replaceAll<StoredMediaItem>(
+    MEDIA_STORE,
+    items.map((item, position) => ({ ...item, position }))
+  );
+
+export const saveHistory = (entries: DownloadHistory[]): Promise<void> =>
+  replaceAll(HISTORY_STORE, entries);
+
+export const loadPartial = async (id: string): Promise<PartialDownload | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PARTIAL_STORE, 'readonly');
+  const record = await requestToPromise(
+    tx.objectStore(PARTIAL_STORE).get(id) as IDBRequest<StoredPartial | undefined>
+  );
+  if (!record) return null;
+  const { blob, ...rest } = record;
+  return { ...rest, parts: [blob] };
+};
+
+export const savePartial = async (id: string, partial: PartialDownload): Promise<void> => {
+  const { parts, ...rest } = partial;
+  const blob = new Blob(parts);
+  // Let the chunk array go; the Blob is all we need from here on.
+  partial.parts = [blob];
+  const db = await openDatabase();
+  const tx = db.transaction(PARTIAL_STORE, 'readwrite');
+  const record: StoredPartial = { ...rest, id, blob };
+  tx.objectStore(PARTIAL_STORE).put(record);
+  await transactionDone(tx);
+};
+
+export const deletePartial = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PARTIAL_STORE, 'readwrite');
+  tx.objectStore(PARTIAL_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(META_STORE).get(key) as IDBRequest<T | undefined>);
+};
+
+export const setMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  await transactionDone(tx);
+};
+
+export const deleteMeta = async (key: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).delete(key);
+  await transactionDone(tx);
+};
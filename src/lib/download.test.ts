@@ -0,0 +1,104 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { DownloadError } from './errors';
+import { createPartial, fetchMedia, type PartialDownload } from './download';
+import { startFileServer, type FileServer } from './testServer';
+
+const bytes = (length: number, seed: number) => Uint8Array.from({ length }, (_, i) => (i * 7 + seed) % 256);
+
+let server: FileServer;
+let url: string;
+let file: { body: Uint8Array; etag: string };
+const headers = (index: number) => server.requests[index].headers;
+
+beforeAll(async () => {
+  server = await startFileServer();
+  url = server.url('/file.bin');
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => {
+  server.reset();
+  file = { body: bytes(1000, 1), etag: '"v1"' };
+  server.files.set('/file.bin', file);
+});
+
+const contents = async (blob: Blob | null) => new Uint8Array(await blob!.arrayBuffer());
+
+// What a download that got `received` bytes of the current file into memory looks like.
+const partialOf = (received: number): PartialDownload => ({
+  ...createPartial(url),
+  parts: [file.body.slice(0, received)],
+  received,
+  total: file.body.length,
+  acceptRanges: true,
+  validator: file.etag,
+});
+
+describe('fetchMedia', () => {
+  it('keeps the bytes read before the connection drops, then fetches only the rest', async () => {
+    server.dropAfter = 400;
+    const partial = createPartial(url);
+
+    const error = await fetchMedia(url, { partial }).catch(err => err);
+    expect(error).toBeInstanceOf(DownloadError);
+    expect(error.kind).toBe('network');
+    expect(partial.received).toBe(400);
+    expect(partial.validator).toBe('"v1"');
+
+    const blob = await fetchMedia(url, { partial });
+    expect(headers(1).range).toBe('bytes=400-');
+    expect(headers(1)['if-range']).toBe('"v1"');
+    expect(await contents(blob)).toEqual(file.body);
+  });
+
+  it('appends a 206 response to what was already received', async () => {
+    const partial = partialOf(300);
+    const progress: number[] = [];
+
+    const blob = await fetchMedia(url, { partial, onProgress: received => progress.push(received) });
+    expect(await contents(blob)).toEqual(file.body);
+    expect(progress.at(-1)).toBe(1000);
+    expect(progress[0]).toBeGreaterThan(300);
+  });
+
+  it('starts over when the server answers a range request with the whole file', async () => {
+    server.ignoreRanges = true;
+    const partial = partialOf(300);
+
+    const blob = await fetchMedia(url, { partial });
+    expect(headers(0).range).toBe('bytes=300-');
+    expect(await contents(blob)).toEqual(file.body);
+    expect(partial.received).toBe(1000);
+  });
+
+  it('treats a 416 as done when everything was already received', async () => {
+    const partial = partialOf(1000);
+
+    const blob = await fetchMedia(url, { partial });
+    expect(server.requests).toHaveLength(1);
+    expect(await contents(blob)).toEqual(file.body);
+  });
+
+  it('restarts after a 416 for a file that shrank', async () => {
+    const partial = { ...partialOf(1000), total: 2000 };
+    file.body = bytes(800, 2);
+
+    const blob = await fetchMedia(url, { partial });
+    expect(server.requests).toHaveLength(2);
+    expect(headers(1).range).toBeUndefined();
+    expect(await contents(blob)).toEqual(file.body);
+  });
+
+  it('downloads the new file when the If-Range validator no longer matches', async () => {
+    const partial = partialOf(300);
+    file.body = bytes(1200, 3);
+    file.etag = '"v2"';
+
+    const blob = await fetchMedia(url, { partial });
+    expect(headers(0)['if-range']).toBe('"v1"');
+    expect(await contents(blob)).toEqual(file.body);
+    expect(partial.validator).toBe('"v2"');
+    expect(partial.total).toBe(1200);
+  });
+});
@@ -0,0 +1,224 @@
+import { detectMedia, type DetectedMedia } from './media';
+import { checksumFromHeaders, type Checksum } from './integrity';
+import { DownloadError, bodyError, httpError, request } from './errors';
+
+/**
+ * Bytes received so far for one URL, plus what is needed to ask the server
+ * for the rest. The download loop appends to it in place, so whatever was
+ * read before a failure is still here afterwards.
+ */
+export interface PartialDownload {
+  url: string;
+  parts: BlobPart[];
+  received: number;
+  total: number;
+  /** Strong ETag or Last-Modified, sent as If-Range so a changed file restarts. */
+  validator?: string;
+  acceptRanges: boolean;
+  contentType?: string;
+  /** Set when the bytes live in a file in the save folder rather than `parts`. */
+  path?: string;
+  /** Streams only: how many whole segments the received bytes cover. */
+  segmentIndex?: number;
+  /** Checksum of the whole body, if the server sent one. */
+  checksum?: Checksum;
+}
+
+/** Destination that takes bytes as they arrive instead of keeping them in memory. */
+export interface ChunkSink {
+  write(chunk: Uint8Array): Promise<void>;
+  /** Drops everything written so far; used when a resume becomes a restart. */
+  reset(): Promise<void>;
+}
+
+export interface FetchMediaOptions {
+  signal?: AbortSignal;
+  onProgress?: (received: number, total: number) => void;
+  /** Resume state; updated as bytes arrive. A fresh one is used if omitted. */
+  partial?: PartialDownload;
+  /** Receives the body instead of `partial.parts`; fetchMedia then resolves to null. */
+  sink?: ChunkSink;
+  /** Called once with what the response turned out to contain. */
+  onDetect?: (detected: DetectedMedia) => void;
+  /** Called with every response, before its body is read; for diagnostics. */
+  onResponse?: (response: Response) => void;
+  /** Swappable for a stand-in when exercising interrupted transfers. */
+  fetch?: typeof fetch;
+}
+
+const SNIFF_LENGTH = 64;
+
+export const createPartial = (url: string): PartialDownload => ({
+  url,
+  parts: [],
+  received: 0,
+  total: 0,
+  acceptRanges: false,
+});
+
+const resetPartial = (partial: PartialDownload) => {
+  partial.parts = [];
+  partial.received = 0;
+  partial.total = 0;
+  partial.validator = undefined;
+  partial.acceptRanges = false;
+  partial.checksum = undefined;
+};
+
+export const canResume = (partial: PartialDownload) =>
+  partial.received > 0 && partial.acceptRanges;
+
+export const parseContentRange = (header: string | null) => {
+  const match = header?.match(/^bytes (\d+)-(\d+)\/(\d+|\*)$/);
+  if (!match) return null;
+  return {
+    start: Number(match[1]),
+    end: Number(match[2]),
+    total: match[3] === '*' ? 0 : Number(match[3]),
+  };
+};
+
+// Byte offsets only line up with what we've stored if the body isn't
+// transparently decoded by the browser.
+const supportsRanges = (headers: Headers) => {
+  const encoding = headers.get('content-encoding');
+  return headers.get('accept-ranges') === 'bytes' && (!encoding || encoding === 'identity');
+};
+
+const getValidator = (headers: Headers) => {
+  const etag = headers.get('etag');
+  if (etag && !etag.startsWith('W/')) return etag;
+  return headers.get('last-modified') || undefined;
+};
+
+/**
+ * Streams `url` into a Blob (or into `sink`), reporting progress as chunks
+ * arrive. When `partial` already holds bytes and the server advertised range
+ * support, only the remainder is requested; otherwise the transfer starts
+ * from zero.
+ */
+export const fetchMedia = async (url: string, options: FetchMediaOptions = {}): Promise<Blob | null> => {
+  const { signal, onProgress, onDetect, onResponse, sink, fetch: fetchImpl = fetch } = options;
+  const partial = options.partial ?? createPartial(url);
+
+  const restart = async () => {
+    resetPartial(partial);
+    await sink?.reset();
+  };
+
+  if (partial.url !== url || !canResume(partial)) await restart();
+  partial.url = url;
+
+  const resuming = partial.received > 0;
+  const headers: Record<string, string> = {};
+  if (resuming) {
+    headers.Range = `bytes=${partial.received}-`;
+    if (partial.validator) headers['If-Range'] = partial.validator;
+  }
+
+  const response = await request(fetchImpl, url, { signal, headers });
+  onResponse?.(response);
+
+  if (resuming && response.status === 416) {
+    // We already have everything the server has to give.
+    if (partial.total > 0 && partial.received >= partial.total) {
+      return sink ? null : new Blob(partial.parts, { type: partial.contentType || '' });
+    }
+    await restart();
+    return fetchMedia(url, { ...options, partial });
+  }
+
+  if (!response.ok) throw httpError(response);
+
+  if (response.status === 206) {
+    const range = parseContentRange(response.headers.get('content-range'));
+    if (!range || range.start !== partial.received) {
+      await response.body?.cancel();
+      await restart();
+      return fetchMedia(url, { ...options, partial });
+    }
+    if (range.total) partial.total = range.total;
+  } else {
+    // A plain 200 means the server ignored the range or the file changed.
+    if (resuming) await restart();
+    // With a content-encoding the length counts encoded bytes, but we count
+    // decoded ones, so the total is unknown.
+    const contentLength = response.headers.get('content-length');
+    const encoding = response.headers.get('content-encoding');
+    partial.total = contentLength && (!encoding || encoding === 'identity') ? parseInt(contentLength, 10) : 0;
+    partial.acceptRanges = supportsRanges(response.headers);
+    partial.validator = getValidator(response.headers);
+    partial.contentType = response.headers.get('content-type') || undefined;
+    partial.checksum = checksumFromHeaders(response.headers) ?? undefined;
+  }
+
+  // Detection only runs on a fresh transfer; a resumed one was sniffed already.
+  let leading: Uint8Array | null = onDetect && response.status !== 206 ? new Uint8Array(0) : null;
+  const reportDetected = () => {
+    if (!leading) return;
+    onDetect?.(detectMedia(url, response.headers, leading));
+    leading = null;
+  };
+
+  const reader = response.body?.getReader();
+
+  if (reader) {
+    while (true) {
+      const { done, value } = await reader.read().catch(error => {
+        throw bodyError(error, response, signal);
+      });
+      if (done) break;
+
+      try {
+        if (leading) {
+          const merged = new Uint8Array(leading.length + value.length);
+          merged.set(leading);
+          merged.set(value, leading.length);
+          leading = merged.subarray(0, SNIFF_LENGTH);
+          if (leading.length >= SNIFF_LENGTH) reportDetected();
+        }
+
+        if (sink) await sink.write(value);
+        else partial.parts.push(value);
+        partial.received += value.length;
+        onProgress?.(partial.received, partial.total);
+      } catch (error) {
+        // A callback or the sink gave up on this body; don't leave the connection open.
+        reader.cancel().catch(() => undefined);
+        throw error;
+      }
+    }
+  }
+
+  reportDetected();
+
+  if (partial.total > 0 && partial.received < partial.total) {
+    throw new DownloadError('network', `Connection closed after ${partial.received} of ${partial.total} bytes`);
+  }
+
+  return sink ? null : new Blob(partial.parts, { type: partial.contentType || '' });
+};
+
+/** Fetches `url` and returns the response once its status checks out. */
+export const openMediaStream = async (
+  url: string,
+  { signal, fetch: fetchImpl = fetch }: Pick<FetchMediaOptions, 'signal' | 'fetch'> = {}
+): Promise<Response> => {
+  const response = await request(fetchImpl, url, { signal });
+  if (!response.ok) throw httpError(response);
+  return response;
+};
+
+/** Hands a Blob to the browser's download manager via a temporary anchor. */
+export const saveBlob = (blob: Blob, filename: string) => {
+  const downloadUrl = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = downloadUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(downloadUrl);
+};
@@ -0,0 +1,280 @@
+import { IntegrityError } from './integrity';
+
+export type ErrorKind =
+  | 'cors'
+  | 'http'
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  | 'decode'
+  | 'integrity'
+  | 'conversion'
+  | 'policy'
+  | 'storage'
+  | 'proxy'
+  | 'unknown';
+
+/** What we knew about the transfer when it failed; shown in the card's details. */
+export interface DownloadDiagnostics {
+  url: string;
+  /** Where the last response actually came from, after redirects. */
+  responseUrl?: string;
+  status?: number;
+  statusText?: string;
+  /** Only the headers CORS lets us read, unless the server exposes more. */
+  headers?: Record<string, string>;
+  received: number;
+  total: number;
+  startedAt: number;
+  firstResponseAt?: number;
+  failedAt: number;
+  attempts?: number;
+}
+
+/** Serializable summary of a failure, stored on the queue item. */
+export interface DownloadFailure {
+  kind: ErrorKind;
+  message: string;
+  status?: number;
+  diagnostics?: DownloadDiagnostics;
+}
+
+/** A failure we've already classified, thrown by the fetch helpers. */
+export class DownloadError extends Error {
+  readonly retryable: boolean;
+
+  constructor(
+    readonly kind: ErrorKind,
+    message: string,
+    readonly status?: number,
+    retryable = kind !== 'cors' && kind !== 'decode',
+    /** Milliseconds the server asked us to wait before trying again. */
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'DownloadError';
+    this.retryable = retryable;
+  }
+}
+
+// Rate limiting, timeouts and server trouble can clear up by themselves;
+// a 404 or 403 won't.
+const isTransientStatus = (status: number) => status === 408 || status === 429 || status >= 500;
+
+const MAX_RETRY_AFTER = 60 * 60_000;
+
+/** Retry-After as milliseconds from `now`; it holds either seconds or an HTTP date. */
+export const parseRetryAfter = (value: string | null, now = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+  const ms = /^\d+$/.test(trimmed) ? Number(trimmed) * 1000 : Date.parse(trimmed) - now;
+  return Number.isNaN(ms) ? undefined : Math.min(Math.max(ms, 0), MAX_RETRY_AFTER);
+};
+
+export const httpError = (response: Response, what = '') =>
+  new DownloadError(
+    'http',
+    `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}${what ? ` for ${what}` : ''}`,
+    response.status,
+    isTransientStatus(response.status),
+    response.status === 429 || response.status === 503
+      ? parseRetryAfter(response.headers.get('retry-after'))
+      : undefined
+  );
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * `fetch` rejects with the same bare TypeError for a CORS block and for a
+ * dead connection. An opaque `no-cors` request still succeeds when only CORS
+ * is in the way, which tells the two apart.
+ */
+const explainFetchFailure = async (
+  error: unknown,
+  url: string,
+  fetchImpl: typeof fetch,
+  signal?: AbortSignal | null
+): Promise<unknown> => {
+  if (signal?.reason instanceof DownloadError) return signal.reason;
+  if (error instanceof DownloadError || isAbort(error) || !(error instanceof TypeError)) return error;
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return new DownloadError('network', 'You appear to be offline');
+  }
+  try {
+    await fetchImpl(url, { mode: 'no-cors', signal });
+    return new DownloadError('cors', 'The server does not allow this site to read the file (CORS)');
+  } catch {
+    return new DownloadError('network', `Could not reach ${new URL(url).host}`);
+  }
+};
+
+/** `fetch`, with connection failures turned into classified DownloadErrors. */
+export const request = async (
+  fetchImpl: typeof fetch,
+  url: string,
+  init: RequestInit = {}
+): Promise<Response> => {
+  try {
+    return await fetchImpl(url, init);
+  } catch (error) {
+    throw await explainFetchFailure(error, url, fetchImpl, init.signal);
+  }
+};
+
+/** Classifies an error that broke off a response body part-way through. */
+export const bodyError = (error: unknown, response: Response, signal?: AbortSignal | null): unknown => {
+  if (signal?.reason instanceof DownloadError) return signal.reason;
+  if (error instanceof DownloadError || isAbort(error) || !(error instanceof TypeError)) return error;
+  const encoding = response.headers.get('content-encoding');
+  return encoding && encoding !== 'identity'
+    ? new DownloadError('decode', `Could not decode the ${encoding}-encoded response`)
+    : new DownloadError('network', 'The connection dropped mid-download');
+};
+
+/**
+ * An AbortSignal that also fires when `touch` hasn't been called for `ms`,
+ * so a transfer that stalls without erroring still ends.
+ */
+export const idleTimeout = (ms: number, parent?: AbortSignal) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const onParentAbort = () => controller.abort(parent?.reason);
+
+  const touch = () => {
+    clearTimeout(timer);
+    timer = setTimeout(
+      () => controller.abort(new DownloadError('timeout', `No data received for ${Math.round(ms / 1000)} s`)),
+      ms
+    );
+  };
+  const clear = () => {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onParentAbort);
+  };
+
+  if (parent?.aborted) onParentAbort();
+  else parent?.addEventListener('abort', onParentAbort, { once: true });
+  touch();
+  return { signal: controller.signal, touch, clear };
+};
+
+/** Boils any thrown value down to a DownloadFailure. */
+export const toFailure = (error: unknown, signal?: AbortSignal): DownloadFailure => {
+  const reason = signal?.reason instanceof DownloadError ? signal.reason : error;
+  if (reason instanceof DownloadError) {
+    return { kind: reason.kind, message: reason.message, status: reason.status };
+  }
+  if (reason instanceof IntegrityError) return { kind: 'integrity', message: reason.message };
+  if (isAbort(reason)) return { kind: 'aborted', message: 'The download was stopped' };
+  if (reason instanceof DOMException && ['NotAllowedError', 'QuotaExceededError', 'NoModificationAllowedError'].includes(reason.name)) {
+    return { kind: 'storage', message: reason.message || 'Could not write to the save folder' };
+  }
+  return { kind: 'unknown', message: reason instanceof Error ? reason.message : String(reason) };
+};
+
+export interface FailureAdvice {
+  title: string;
+  explanation: string;
+  actions: string[];
+}
+
+/** Turns a failure into something a person can act on. */
+export const describeFailure = (failure: DownloadFailure): FailureAdvice => {
+  switch (failure.kind) {
+    case 'cors':
+      return {
+        title: 'Blocked by CORS',
+        explanation:
+          'The server answered, but it doesn’t send the Access-Control-Allow-Origin header that lets a web page read the file. Browsers enforce this; it isn’t a missing file.',
+        actions: [
+          'Open the link in a new tab and save it from there',
+          'Ask the site owner to allow cross-origin requests',
+          'Start the MediaDrop proxy (npm run proxy) and turn it on in Settings',
+        ],
+      };
+    case 'http':
+      if (failure.status === 404 || failure.status === 410) {
+        return {
+          title: `Not found (${failure.status})`,
+          explanation: 'The server says there is no file at this address.',
+          actions: ['Check the URL for typos', 'The link may have expired; fetch a fresh one from the page'],
+        };
+      }
+      if (failure.status === 401 || failure.status === 403) {
+        return {
+          title: `Access denied (${failure.status})`,
+          explanation: 'The server refused the request. The file may need you to be signed in, or the link may be signed and expired.',
+          actions: ['Open the link in a new tab to see whether it works while signed in', 'Get a fresh link from the page'],
+        };
+      }
+      if (failure.status === 429) {
+        return {
+          title: 'Rate limited (429)',
+          explanation: 'The server is asking us to slow down.',
+          actions: [
+            'Add a host rule in Settings with fewer connections or a longer delay',
+            'Lower the number of parallel downloads',
+            'Wait a minute and retry',
+          ],
+        };
+      }
+      return (failure.status ?? 0) >= 500
+        ? { title: `Server error (${failure.status})`, explanation: failure.message, actions: ['Retry in a little while'] }
+        : { title: `Request failed (${failure.status ?? 'HTTP'})`, explanation: failure.message, actions: ['Check the URL', 'Retry'] };
+    case 'network':
+      return {
+        title: 'Network error',
+        explanation: `${failure.message}. The connection failed before the download finished.`,
+        actions: ['Check your connection', 'Retry; completed bytes are kept where the server allows it'],
+      };
+    case 'timeout':
+      return {
+        title: 'Timed out',
+        explanation: `${failure.message}, so the transfer was given up.`,
+        actions: ['Retry', 'Lower the number of parallel downloads on a slow connection'],
+      };
+    case 'aborted':
+      return { title: 'Stopped', explanation: failure.message, actions: ['Retry'] };
+    case 'decode':
+      return {
+        title: 'Unreadable response',
+        explanation: failure.message,
+        actions: ['Open the link in a new tab to check what the server returns'],
+      };
+    case 'integrity':
+      return {
+        title: 'Checksum mismatch',
+        explanation: `${failure.message}. The file was discarded because it may be corrupt or not the one you expected.`,
+        actions: ['Check the expected checksum', 'Retry the download'],
+      };
+    case 'conversion':
+      return {
+        title: 'Could not convert',
+        explanation: `${failure.message}. The original was downloaded but not saved.`,
+        actions: ['Pick another output format for this item', 'Set its output to Original to save it as is'],
+      };
+    case 'policy':
+      return {
+        title: 'Blocked by a host rule',
+        explanation: `${failure.message}, so the download was stopped.`,
+        actions: ['Change the host rules in Settings if this file should be allowed'],
+      };
+    case 'storage':
+      return {
+        title: 'Could not save',
+        explanation: failure.message,
+        actions: ['Re-allow access to the save folder in Settings', 'Free up disk space'],
+      };
+    case 'proxy':
+      return {
+        title: 'Proxy failed',
+        explanation: failure.message,
+        actions: [
+          'Check that the proxy is running (npm run dev, or npm run proxy)',
+          'Add the host to the proxy’s allowHosts in mediadrop-proxy.json',
+        ],
+      };
+    default:
+      return { title: 'Download failed', explanation: failure.message, actions: ['Retry'] };
+  }
+};
@@ -0,0 +1,332 @@
+/** The EXIF fields worth showing; everything else in the block is ignored. */
+export interface ExifData {
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  software?: string;
+  /** As written by the camera, `YYYY:MM:DD HH:MM:SS` in its local time. */
+  dateTime?: string;
+  orientation?: number;
+  /** Seconds. */
+  exposureTime?: number;
+  fNumber?: number;
+  iso?: number;
+  /** Millimetres. */
+  focalLength?: number;
+  width?: number;
+  height?: number;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+}
+
+type TagValue = number | number[] | string;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  width: 0xa002,
+  height: 0xa003,
+  lensModel: 0xa434,
+};
+
+const GPS_TAGS = { latitudeRef: 1, latitude: 2, longitudeRef: 3, longitude: 4, altitudeRef: 5, altitude: 6 };
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const readUint16 = (bytes: Uint8Array, offset: number) => (bytes[offset] << 8) | bytes[offset + 1];
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const readUint32Le = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+/** Reads the tags of one IFD; entries pointing outside the block are skipped. */
+const readIfd = (tiff: DataView, offset: number, little: boolean): Map<number, TagValue> => {
+  const tags = new Map<number, TagValue>();
+  if (offset + 2 > tiff.byteLength) return tags;
+  const count = tiff.getUint16(offset, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    if (entry + 12 > tiff.byteLength) break;
+    const tag = tiff.getUint16(entry, little);
+    const type = tiff.getUint16(entry + 2, little);
+    const length = tiff.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+
+    const at = size * length <= 4 ? entry + 8 : tiff.getUint32(entry + 8, little);
+    if (at + size * length > tiff.byteLength) continue;
+
+    if (type === 2) {
+      const text = ascii(new Uint8Array(tiff.buffer, tiff.byteOffset + at, length), 0, length);
+      tags.set(tag, text.replace(/\0.*$/s, '').trim());
+      continue;
+    }
+    if (type === 7 || length > 16) continue;
+
+    const values: number[] = [];
+    for (let n = 0; n < length; n++) {
+      const p = at + n * size;
+      if (type === 1) values.push(tiff.getUint8(p));
+      else if (type === 3) values.push(tiff.getUint16(p, little));
+      else if (type === 4) values.push(tiff.getUint32(p, little));
+      else if (type === 9) values.push(tiff.getInt32(p, little));
+      else {
+        const numerator = type === 5 ? tiff.getUint32(p, little) : tiff.getInt32(p, little);
+        const denominator = type === 5 ? tiff.getUint32(p + 4, little) : tiff.getInt32(p + 4, little);
+        values.push(denominator ? numerator / denominator : 0);
+      }
+    }
+    tags.set(tag, values.length === 1 ? values[0] : values);
+  }
+  return tags;
+};
+
+const asNumber = (value: TagValue | undefined) => (typeof value === 'number' ? value : undefined);
+const asString = (value: TagValue | undefined) => (typeof value === 'string' && value ? value : undefined);
+
+const toDegrees = (value: TagValue | undefined, ref: TagValue | undefined) => {
+  if (!Array.isArray(value) || value.length !== 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+const parseTiff = (tiff: DataView): ExifData | null => {
+  if (tiff.byteLength < 8) return null;
+  const order = tiff.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  if (tiff.getUint16(2, little) !== 42) return null;
+
+  const ifd0 = readIfd(tiff, tiff.getUint32(4, little), little);
+  const exifOffset = asNumber(ifd0.get(TAGS.exifIfd));
+  const gpsOffset = asNumber(ifd0.get(TAGS.gpsIfd));
+  const exif = exifOffset ? readIfd(tiff, exifOffset, little) : new Map<number, TagValue>();
+  const gps = gpsOffset ? readIfd(tiff, gpsOffset, little) : new Map<number, TagValue>();
+
+  const latitude = toDegrees(gps.get(GPS_TAGS.latitude), gps.get(GPS_TAGS.latitudeRef));
+  const longitude = toDegrees(gps.get(GPS_TAGS.longitude), gps.get(GPS_TAGS.longitudeRef));
+  const altitude = asNumber(gps.get(GPS_TAGS.altitude));
+
+  return {
+    make: asString(ifd0.get(TAGS.make)),
+    model: asString(ifd0.get(TAGS.model)),
+    lensModel: asString(exif.get(TAGS.lensModel)),
+    software: asString(ifd0.get(TAGS.software)),
+    dateTime: asString(exif.get(TAGS.dateTimeOriginal)) ?? asString(ifd0.get(TAGS.dateTime)),
+    orientation: asNumber(ifd0.get(TAGS.orientation)),
+    exposureTime: asNumber(exif.get(TAGS.exposureTime)),
+    fNumber: asNumber(exif.get(TAGS.fNumber)),
+    iso: asNumber(exif.get(TAGS.iso)),
+    focalLength: asNumber(exif.get(TAGS.focalLength)),
+    width: asNumber(exif.get(TAGS.width)),
+    height: asNumber(exif.get(TAGS.height)),
+    gps: latitude !== undefined && longitude !== undefined
+      ? {
+        latitude,
+        longitude,
+        altitude: altitude !== undefined && gps.get(GPS_TAGS.altitudeRef) === 1 ? -altitude : altitude,
+      }
+      : undefined,
+  };
+};
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+const isPng = (bytes: Uint8Array) => ascii(bytes, 1, 3) === 'PNG' && bytes[0] === 0x89;
+const isWebp = (bytes: Uint8Array) => ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP';
+
+interface JpegSegment {
+  marker: number;
+  start: number;
+  end: number;
+}
+
+/** Lists the header segments of a JPEG, up to (not including) the image data. */
+const jpegSegments = (bytes: Uint8Array): { segments: JpegSegment[]; dataStart: number } => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) break;
+    const end = offset + 2 + readUint16(bytes, offset + 2);
+    segments.push({ marker, start: offset, end });
+    offset = end;
+  }
+  return { segments, dataStart: offset };
+};
+
+const isExifSegment = (bytes: Uint8Array, segment: JpegSegment) =>
+  segment.marker === 0xe1 && ascii(bytes, segment.start + 4, 6) === 'Exif\0\0';
+
+/**
+ * Reads camera, exposure and location details from a JPEG's EXIF block.
+ * Only the start of the file is needed. Returns null for anything else, or a
+ * JPEG without EXIF.
+ */
+export const readExif = (bytes: Uint8Array): ExifData | null => {
+  if (!isJpeg(bytes)) return null;
+  const segment = jpegSegments(bytes).segments.find(s => isExifSegment(bytes, s));
+  if (!segment || segment.end > bytes.length) return null;
+  const start = segment.start + 10;
+  return parseTiff(new DataView(bytes.buffer, bytes.byteOffset + start, segment.end - start));
+};
+
+const ORIENTATIONS: Record<number, string> = {
+  2: 'Mirrored',
+  3: 'Rotated 180°',
+  4: 'Mirrored, rotated 180°',
+  5: 'Mirrored, rotated 90° CCW',
+  6: 'Rotated 90° CW',
+  7: 'Mirrored, rotated 90° CW',
+  8: 'Rotated 90° CCW',
+};
+
+/** Label/value rows for display, in a sensible reading order. */
+export const describeExif = (exif: ExifData): [string, string][] => {
+  const rows: [string, string | undefined][] = [
+    ['Camera', [exif.make, exif.model].filter(Boolean).join(' ') || undefined],
+    ['Lens', exif.lensModel],
+    ['Taken', exif.dateTime?.replace(/^(\d{4}):(\d{2}):(\d{2})/, '$1-$2-$3')],
+    ['Exposure', exif.exposureTime !== undefined
+      ? exif.exposureTime < 1 && exif.exposureTime > 0
+        ? `1/${Math.round(1 / exif.exposureTime)} s`
+        : `${exif.exposureTime} s`
+      : undefined],
+    ['Aperture', exif.fNumber !== undefined ? `f/${exif.fNumber.toFixed(1)}` : undefined],
+    ['ISO', exif.iso !== undefined ? String(exif.iso) : undefined],
+    ['Focal length', exif.focalLength !== undefined ? `${Math.round(exif.focalLength * 10) / 10} mm` : undefined],
+    ['Orientation', exif.orientation ? ORIENTATIONS[exif.orientation] : undefined],
+    ['Software', exif.software],
+    ['Location', exif.gps
+      ? `${exif.gps.latitude.toFixed(5)}, ${exif.gps.longitude.toFixed(5)}`
+        + (exif.gps.altitude !== undefined ? ` · ${Math.round(exif.gps.altitude)} m` : '')
+      : undefined],
+  ];
+  return rows.filter((row): row is [string, string] => row[1] !== undefined);
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/** A minimal EXIF segment carrying only the orientation, so stripped photos still display upright. */
+const orientationSegment = (orientation: number) => {
+  const segment = new Uint8Array(36);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, 34);
+  segment.set([0x45, 0x78, 0x69, 0x66, 0, 0], 4); // Exif\0\0
+  view.setUint16(10, 0x4d4d); // big-endian TIFF
+  view.setUint16(12, 42);
+  view.setUint32(14, 8);
+  view.setUint16(18, 1);
+  view.setUint16(20, TAGS.orientation);
+  view.setUint16(22, 3);
+  view.setUint32(24, 1);
+  view.setUint16(28, orientation);
+  view.setUint32(32, 0);
+  return segment;
+};
+
+// APP1 holds EXIF and XMP, APP13 holds IPTC; COM is free text.
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe]);
+
+const stripJpeg = (bytes: Uint8Array) => {
+  const { segments, dataStart } = jpegSegments(bytes);
+  if (!segments.some(segment => JPEG_METADATA_MARKERS.has(segment.marker))) return bytes;
+
+  const kept = segments.filter(segment => !JPEG_METADATA_MARKERS.has(segment.marker));
+  const parts = [bytes.subarray(0, 2), ...kept.map(segment => bytes.subarray(segment.start, segment.end))];
+  const orientation = readExif(bytes)?.orientation;
+  if (orientation && orientation !== 1) {
+    // JFIF wants its APP0 first, so the orientation goes straight after it.
+    parts.splice(kept[0]?.marker === 0xe0 ? 2 : 1, 0, orientationSegment(orientation));
+  }
+  parts.push(bytes.subarray(dataStart));
+  const stripped = concat(parts);
+  // Already stripped down to the orientation alone.
+  return stripped.length === bytes.length && stripped.every((byte, i) => byte === bytes[i]) ? bytes : stripped;
+};
+
+// eXIf is EXIF proper; the text chunks routinely carry XMP, authors and
+// comments, and tIME is the last edit.
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+const stripPng = (bytes: Uint8Array) => {
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let offset = 8;
+  let removed = false;
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + readUint32(bytes, offset);
+    if (PNG_METADATA_CHUNKS.has(ascii(bytes, offset + 4, 4))) removed = true;
+    else parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+  return removed ? concat(parts) : bytes;
+};
+
+const VP8X_EXIF_FLAG = 0x08;
+const VP8X_XMP_FLAG = 0x04;
+
+const stripWebp = (bytes: Uint8Array) => {
+  const parts: Uint8Array[] = [];
+  let offset = 12;
+  let removed = false;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const size = readUint32Le(bytes, offset + 4);
+    const end = Math.min(bytes.length, offset + 8 + size + (size % 2));
+    if (type === 'EXIF' || type === 'XMP ') {
+      removed = true;
+    } else if (type === 'VP8X') {
+      const chunk = bytes.slice(offset, end);
+      chunk[8] &= ~(VP8X_EXIF_FLAG | VP8X_XMP_FLAG);
+      parts.push(chunk);
+    } else {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  if (!removed) return bytes;
+
+  const body = concat(parts);
+  const header = bytes.slice(0, 12);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  return concat([header, body]);
+};
+
+/**
+ * Removes EXIF (including GPS), XMP, IPTC and comments from a JPEG, PNG or
+ * WebP without re-encoding it. A JPEG's orientation is kept. Returns `bytes`
+ * itself when there was nothing to remove or the format isn't one of those.
+ */
+export const stripImageMetadata = (bytes: Uint8Array): Uint8Array => {
+  if (isJpeg(bytes)) return stripJpeg(bytes);
+  if (isPng(bytes)) return stripPng(bytes);
+  if (isWebp(bytes)) return stripWebp(bytes);
+  return bytes;
+};
@@ -0,0 +1,196 @@
+import type { ChunkSink } from './download';
+import { saveBlob } from './download';
+import { dedupeFilename } from './filename';
+
+// The File System Access API isn't in TypeScript's DOM lib yet.
+interface SaveFilePickerOptions {
+  suggestedName?: string;
+  types?: Array<{ description?: string; accept: Record<string, string[]> }>;
+}
+
+interface DirectoryPickerOptions {
+  id?: string;
+  mode?: 'read' | 'readwrite';
+}
+
+interface HandlePermissionDescriptor {
+  mode?: 'read' | 'readwrite';
+}
+
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: SaveFilePickerOptions) => Promise<FileSystemFileHandle>;
+    showDirectoryPicker?: (options?: DirectoryPickerOptions) => Promise<FileSystemDirectoryHandle>;
+  }
+
+  interface FileSystemHandle {
+    queryPermission?: (descriptor?: HandlePermissionDescriptor) => Promise<PermissionState>;
+    requestPermission?: (descriptor?: HandlePermissionDescriptor) => Promise<PermissionState>;
+  }
+}
+
+const isAbort = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+export const canPickSaveFile = () => typeof window.showSaveFilePicker === 'function';
+
+export const canPickDirectory = () => typeof window.showDirectoryPicker === 'function';
+
+/** Asks the user for a folder to save into. Resolves to null if they cancel. */
+export const pickDirectory = async (): Promise<FileSystemDirectoryHandle | null> => {
+  try {
+    return await window.showDirectoryPicker!({ id: 'mediadrop', mode: 'readwrite' });
+  } catch (err) {
+    if (isAbort(err)) return null;
+    throw err;
+  }
+};
+
+/**
+ * Checks (and with `request`, asks for) write access to a stored handle.
+ * Browsers only show the prompt from a user gesture.
+ */
+export const hasWritePermission = async (handle: FileSystemHandle, request = false): Promise<boolean> => {
+  const descriptor: HandlePermissionDescriptor = { mode: 'readwrite' };
+  if (!handle.queryPermission) return true;
+  if ((await handle.queryPermission(descriptor)) === 'granted') return true;
+  if (!request || !handle.requestPermission) return false;
+  return (await handle.requestPermission(descriptor)) === 'granted';
+};
+
+/**
+ * Resolves `path` (slash-separated) under `root`, creating folders and the
+ * file as needed. Without `create`, anything missing throws NotFoundError.
+ */
+export const getFileHandle = async (
+  root: FileSystemDirectoryHandle,
+  path: string,
+  create = true
+): Promise<FileSystemFileHandle> => {
+  const segments = path.split('/').filter(Boolean);
+  const filename = segments.pop() || 'download';
+  let directory = root;
+  for (const segment of segments) {
+    directory = await directory.getDirectoryHandle(segment, { create });
+  }
+  return directory.getFileHandle(filename, { create });
+};
+
+/** True if something called `path` already exists under `root`. */
+export const fileExists = async (root: FileSystemDirectoryHandle, path: string): Promise<boolean> => {
+  try {
+    await getFileHandle(root, path, false);
+    return true;
+  } catch (err) {
+    // A folder of that name is in the way just as much as a file.
+    if (err instanceof DOMException && err.name === 'TypeMismatchError') return true;
+    if (err instanceof DOMException && err.name === 'NotFoundError') return false;
+    throw err;
+  }
+};
+
+/**
+ * `path`, or the first `name (n).ext` variant of it that isn't in the folder
+ * yet or in `taken`, so a new download never replaces a file it didn't make.
+ */
+export const availablePath = async (
+  root: FileSystemDirectoryHandle,
+  path: string,
+  taken: Set<string> = new Set()
+): Promise<string> => {
+  // dedupeFilename marks each name it hands out, so every pass tries the next one.
+  const tried = new Set(taken);
+  let candidate = dedupeFilename(path, tried);
+  while (await fileExists(root, candidate)) candidate = dedupeFilename(path, tried);
+  return candidate;
+};
+
+/** Deletes `path` under `root`; missing files are ignored. */
+export const removeFile = async (root: FileSystemDirectoryHandle, path: string): Promise<void> => {
+  const segments = path.split('/').filter(Boolean);
+  const filename = segments.pop();
+  if (!filename) return;
+  try {
+    let directory = root;
+    for (const segment of segments) directory = await directory.getDirectoryHandle(segment);
+    await directory.removeEntry(filename);
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'NotFoundError') return;
+    throw err;
+  }
+};
+
+/** Replaces the contents of `path` under `root`. */
+export const writeFile = async (root: FileSystemDirectoryHandle, path: string, data: Blob | Uint8Array): Promise<void> => {
+  const writable = await (await getFileHandle(root, path)).createWritable();
+  try {
+    await writable.write(data);
+  } finally {
+    await writable.close();
+  }
+};
+
+export interface FileSink extends ChunkSink {
+  /** Commits what was written. Also used after a failure, to keep the bytes for resuming. */
+  close(): Promise<void>;
+}
+
+/**
+ * Opens `path` under `root` for streaming writes. With `resumeAt`, existing
+ * bytes up to that offset are kept and writing continues from there. Anything
+ * else at `path` is replaced, so pick it with availablePath first.
+ */
+export const openFileSink = async (
+  root: FileSystemDirectoryHandle,
+  path: string,
+  resumeAt = 0
+): Promise<FileSink> => {
+  const handle = await getFileHandle(root, path);
+  const writable = await handle.createWritable({ keepExistingData: resumeAt > 0 });
+  if (resumeAt > 0) {
+    await writable.truncate(resumeAt);
+    await writable.seek(resumeAt);
+  }
+
+  return {
+    write: chunk => writable.write(chunk),
+    reset: async () => {
+      await writable.truncate(0);
+      await writable.seek(0);
+    },
+    close: () => writable.close(),
+  };
+};
+
+/**
+ * Opens a stream that ends up as a file called `filename`. Where the browser
+ * lets us pick a save location the bytes go straight to disk; otherwise they
+ * are collected into a Blob and handed to the download manager on close.
+ * Must be called from a user gesture. Resolves to null if the user cancels.
+ */
+export const openSaveStream = async (
+  filename: string,
+  accept: Record<string, string[]> = {}
+): Promise<WritableStream<Uint8Array> | null> => {
+  if (canPickSaveFile()) {
+    try {
+      const handle = await window.showSaveFilePicker!({
+        suggestedName: filename,
+        types: Object.keys(accept).length > 0 ? [{ accept }] : undefined,
+      });
+      return await handle.createWritable();
+    } catch (err) {
+      if (isAbort(err)) return null;
+      throw err;
+    }
+  }
+
+  const parts: BlobPart[] = [];
+  return new WritableStream<Uint8Array>({
+    write(chunk) {
+      parts.push(chunk);
+    },
+    close() {
+      saveBlob(new Blob(parts), filename);
+    },
+  });
+};
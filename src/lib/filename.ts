@@ -0,0 +1,142 @@
+import type { MediaItem, MediaType } from '../types';
+import { extensionOf, generateFilename } from './media';
+import { sha256Hex } from './sha256';
+
+export const DEFAULT_TEMPLATE = '{basename}.{ext}';
+
+export const TEMPLATE_TOKENS: Record<string, string> = {
+  '{host}': 'Source hostname, e.g. cdn.example.com',
+  '{date}': 'Date added, YYYY-MM-DD',
+  '{index}': 'Position in the queue, 001, 002…',
+  '{type}': 'image, video, audio or other',
+  '{hash8}': 'First 8 hex digits of the URL’s SHA-256',
+  '{basename}': 'Original filename without extension',
+  '{ext}': 'File extension',
+};
+
+// Most filesystems cap a single name at 255 bytes; leave room for " (99)".
+const MAX_SEGMENT_BYTES = 240;
+const MAX_PATH_SEGMENTS = 8;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+// eslint-disable-next-line no-control-regex
+const UNSAFE_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f\u007f]/g;
+
+export interface FilenameContext {
+  url: string;
+  type: MediaType;
+  /** Overrides the extension taken from the URL, e.g. after detection. */
+  extension?: string;
+  index: number;
+  /** When the item was added; defaults to now. */
+  date?: Date;
+  /** Server-suggested name (Content-Disposition) to use for {basename}. */
+  originalName?: string;
+}
+
+const byteLength = (value: string) => new TextEncoder().encode(value).length;
+
+const truncateBytes = (value: string, maxBytes: number) => {
+  let result = value;
+  while (byteLength(result) > maxBytes) result = result.slice(0, -1);
+  return result;
+};
+
+/** Makes one path segment safe on Windows, macOS and Linux. */
+export const sanitizeSegment = (segment: string): string => {
+  let clean = segment
+    .replace(UNSAFE_CHARACTERS, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[. ]+$/, '');
+
+  if (!clean || clean === '.' || clean === '..') clean = '_';
+  if (RESERVED_NAMES.test(clean)) clean = `_${clean}`;
+
+  if (byteLength(clean) > MAX_SEGMENT_BYTES) {
+    const ext = extensionOf(clean);
+    const suffix = ext && ext.length < 16 ? `.${ext}` : '';
+    const stem = suffix ? clean.slice(0, -suffix.length) : clean;
+    clean = truncateBytes(stem, MAX_SEGMENT_BYTES - byteLength(suffix)).trim() + suffix;
+  }
+  return clean;
+};
+
+/**
+ * Sanitizes a relative path. Forward slashes separate folders; anything that
+ * could climb out of the target folder is dropped.
+ */
+export const sanitizeFilename = (path: string): string => {
+  const segments = path
+    .replace(/\\/g, '/')
+    .split('/')
+    .map(segment => segment.trim())
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .slice(-MAX_PATH_SEGMENTS)
+    .map(sanitizeSegment);
+  return segments.join('/') || 'download';
+};
+
+/** Collapses folders for destinations that can only take a bare filename. */
+export const flattenFilename = (path: string): string => path.split('/').join('_');
+
+const pad = (value: number, width: number) => String(value).padStart(width, '0');
+
+const formatDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1, 2)}-${pad(date.getDate(), 2)}`;
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return 'unknown-host';
+  }
+};
+
+export const renderFilename = (template: string, context: FilenameContext): string => {
+  const original = context.originalName || generateFilename(context.url);
+  const ext = context.extension || extensionOf(original);
+  const basename = ext && original.toLowerCase().endsWith(`.${ext}`)
+    ? original.slice(0, -(ext.length + 1))
+    : original.replace(/\.[^.]*$/, '');
+
+  const values: Record<string, string> = {
+    '{host}': hostOf(context.url),
+    '{date}': formatDate(context.date ?? new Date()),
+    '{index}': pad(context.index, 3),
+    '{type}': context.type,
+    '{hash8}': sha256Hex(new TextEncoder().encode(context.url)).slice(0, 8),
+    '{basename}': basename || 'download',
+    '{ext}': ext,
+  };
+
+  const rendered = (template.trim() || DEFAULT_TEMPLATE).replace(
+    /\{[a-z0-9]+\}/gi,
+    token => values[token.toLowerCase()] ?? token
+  );
+  // An empty {ext} would otherwise leave a dangling dot.
+  return sanitizeFilename(rendered.replace(/\.(?=\/|$)/g, ''));
+};
+
+/**
+ * Returns `filename`, or `name (2).ext`, `name (3).ext`… if it is already in
+ * `taken`. Comparison is case-insensitive, like most filesystems. The chosen
+ * name is added to `taken`.
+ */
+export const dedupeFilename = (filename: string, taken: Set<string>): string => {
+  const dot = filename.lastIndexOf('.');
+  const slash = filename.lastIndexOf('/');
+  const hasExt = dot > slash + 1;
+  const base = hasExt ? filename.slice(0, dot) : filename;
+  const ext = hasExt ? filename.slice(dot) : '';
+
+  let candidate = filename;
+  for (let n = 2; taken.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${ext}`;
+  }
+  taken.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/** Filenames already claimed by queue items, for use with dedupeFilename. */
+export const takenFilenames = (items: MediaItem[], exceptId?: string): Set<string> =>
+  new Set(items.filter(item => item.id !== exceptId).map(item => item.filename.toLowerCase()));
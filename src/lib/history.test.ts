@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import type { DownloadHistory } from '../types';
+import { historyToCsv, parseCsv, parseHistoryImport } from './history';
+
+const entry = (patch: Partial<DownloadHistory>): DownloadHistory => ({
+  id: 'h1',
+  filename: 'photo.jpg',
+  url: 'https://example.com/photo.jpg',
+  type: 'image',
+  downloadedAt: new Date('2026-01-02T03:04:05Z'),
+  ...patch,
+});
+
+describe('historyToCsv', () => {
+  it('keeps spreadsheets from running cells as formulas', () => {
+    const csv = historyToCsv([entry({ filename: '=HYPERLINK("https://evil.example","x")', error: '@SUM(1)', savedTo: '-2+3' })]);
+    const [, row] = parseCsv(csv);
+    expect(row[1]).toBe('\'=HYPERLINK("https://evil.example","x")');
+    expect(row[8]).toBe("'-2+3");
+    expect(row[11]).toBe("'@SUM(1)");
+    expect(row.every(cell => !/^[=+\-@\t\r]/.test(cell))).toBe(true);
+  });
+
+  it('round-trips through an import unchanged', () => {
+    const original = entry({ filename: '+1 photo.jpg', error: '=oops', size: 10 });
+    const [imported] = parseHistoryImport(historyToCsv([original]), 'history.csv');
+    expect(imported).toMatchObject({ filename: '+1 photo.jpg', error: '=oops', size: 10, url: original.url });
+  });
+
+  it('leaves ordinary cells alone', () => {
+    const [, row] = parseCsv(historyToCsv([entry({ filename: "it's, fine.jpg" })]));
+    expect(row[1]).toBe("it's, fine.jpg");
+  });
+});
+
+describe('parseHistoryImport', () => {
+  const stream = { format: 'hls', manifestUrl: 'https://example.com/video/index.m3u8', variantId: '720p', label: '720p' } as const;
+
+  it('keeps the rendition of a stream entry from a JSON export', () => {
+    const [imported] = parseHistoryImport(JSON.stringify([entry({ type: 'video', stream })]), 'history.json');
+    expect(imported.stream).toEqual(stream);
+  });
+
+  it('drops a stream selection that is not usable', () => {
+    const broken = { ...stream, manifestUrl: 'javascript:alert(1)' };
+    const [imported] = parseHistoryImport(JSON.stringify([{ ...entry({ type: 'video' }), stream: broken }]), 'history.json');
+    expect(imported.stream).toBeUndefined();
+  });
+});
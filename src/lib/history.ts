@@ -0,0 +1,202 @@
+import type { DownloadHistory, HistoryStatus, MediaType } from '../types';
+import { reviveHistory } from './db';
+import { createId } from './id';
+import { isHttpUrl } from './importer';
+import type { StreamSelection } from './stream';
+
+export type HistorySort = 'newest' | 'oldest' | 'name' | 'size';
+
+export interface HistoryFilter {
+  query: string;
+  type: MediaType | 'all';
+  host: string;
+  /** Inclusive, as YYYY-MM-DD from a date input; empty for no bound. */
+  from: string;
+  to: string;
+  sort: HistorySort;
+}
+
+export const EMPTY_FILTER: HistoryFilter = {
+  query: '',
+  type: 'all',
+  host: '',
+  from: '',
+  to: '',
+  sort: 'newest',
+};
+
+const MEDIA_TYPES: MediaType[] = ['image', 'video', 'audio', 'other'];
+const STATUSES: HistoryStatus[] = ['completed', 'error', 'cancelled', 'mismatch'];
+
+export const hostOf = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return '';
+  }
+};
+
+export const historyHosts = (entries: DownloadHistory[]): string[] =>
+  Array.from(new Set(entries.map(entry => hostOf(entry.url)).filter(Boolean))).sort();
+
+const startOfDay = (value: string) => new Date(`${value}T00:00:00`).getTime();
+
+export const filterHistory = (entries: DownloadHistory[], filter: HistoryFilter): DownloadHistory[] => {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = filter.from ? startOfDay(filter.from) : -Infinity;
+  const to = filter.to ? startOfDay(filter.to) + 86_400_000 : Infinity;
+
+  const matches = entries.filter(entry => {
+    const time = entry.downloadedAt.getTime();
+    if (time < from || time >= to) return false;
+    if (filter.type !== 'all' && entry.type !== filter.type) return false;
+    if (filter.host && hostOf(entry.url) !== filter.host) return false;
+    const haystack = `${entry.filename} ${entry.url}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+
+  const compare: Record<HistorySort, (a: DownloadHistory, b: DownloadHistory) => number> = {
+    newest: (a, b) => b.downloadedAt.getTime() - a.downloadedAt.getTime(),
+    oldest: (a, b) => a.downloadedAt.getTime() - b.downloadedAt.getTime(),
+    name: (a, b) => a.filename.localeCompare(b.filename),
+    size: (a, b) => (b.size ?? -1) - (a.size ?? -1),
+  };
+  return matches.sort(compare[filter.sort]);
+};
+
+/** Keeps the newest `limit` entries; 0 means keep everything. */
+export const applyRetention = (entries: DownloadHistory[], limit: number): DownloadHistory[] =>
+  limit > 0 ? entries.slice(0, limit) : entries;
+
+/** Merges imported entries into `existing`, skipping ids already present. */
+export const mergeHistory = (existing: DownloadHistory[], incoming: DownloadHistory[]): DownloadHistory[] => {
+  const ids = new Set(existing.map(entry => entry.id));
+  return [...existing, ...incoming.filter(entry => !ids.has(entry.id))]
+    .sort((a, b) => b.downloadedAt.getTime() - a.downloadedAt.getTime());
+};
+
+const CSV_COLUMNS = [
+  'id', 'filename', 'url', 'type', 'downloadedAt', 'status', 'size', 'duration', 'savedTo', 'sha256', 'duplicateOf', 'error',
+] as const;
+
+// Spreadsheets run a cell starting with one of these as a formula, and
+// filenames, URLs and errors come from remote servers. A leading ' defuses it.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const DEFUSED_FORMULA = /^'[=+\-@\t\r]/;
+
+const csvCell = (value: unknown) => {
+  const raw = value === undefined || value === null ? '' : String(value);
+  const text = FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const historyToJson = (entries: DownloadHistory[]): string =>
+  JSON.stringify(entries.map(entry => ({ ...entry, downloadedAt: entry.downloadedAt.toISOString() })), null, 2);
+
+export const historyToCsv = (entries: DownloadHistory[]): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...entries.map(entry => CSV_COLUMNS.map(column =>
+      csvCell(column === 'downloadedAt' ? entry.downloadedAt.toISOString() : entry[column])
+    ).join(',')),
+  ].join('\n');
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value !== ''));
+};
+
+const toNumber = (value: unknown) => {
+  const number = Number(value);
+  return value === '' || value === undefined || value === null || !Number.isFinite(number) ? undefined : number;
+};
+
+const toStream = (value: unknown): StreamSelection | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const { format, manifestUrl, variantId, label } = value as Record<string, unknown>;
+  if ((format !== 'hls' && format !== 'dash') || typeof manifestUrl !== 'string' || !isHttpUrl(manifestUrl)) return undefined;
+  if (typeof variantId !== 'string' || typeof label !== 'string') return undefined;
+  return { format, manifestUrl, variantId, label };
+};
+
+/** Turns one imported record into a history entry, or null if it's unusable. */
+const toEntry = (record: Record<string, unknown>): DownloadHistory | null => {
+  const url = typeof record.url === 'string' ? record.url.trim() : '';
+  // Entries end up as links and queue items, so nothing but http(s) gets in.
+  if (!isHttpUrl(url)) return null;
+  const type = MEDIA_TYPES.includes(record.type as MediaType) ? (record.type as MediaType) : 'other';
+  const status = STATUSES.includes(record.status as HistoryStatus) ? (record.status as HistoryStatus) : undefined;
+
+  return reviveHistory({
+    id: typeof record.id === 'string' && record.id ? record.id : createId(),
+    filename: typeof record.filename === 'string' && record.filename ? record.filename : url.split('/').pop() || 'download',
+    url,
+    type,
+    downloadedAt: record.downloadedAt as Date,
+    savedTo: typeof record.savedTo === 'string' && record.savedTo ? record.savedTo : undefined,
+    size: toNumber(record.size),
+    duration: toNumber(record.duration),
+    status,
+    sha256: typeof record.sha256 === 'string' && /^[0-9a-f]{64}$/i.test(record.sha256) ? record.sha256.toLowerCase() : undefined,
+    duplicateOf: typeof record.duplicateOf === 'string' && record.duplicateOf ? record.duplicateOf : undefined,
+    error: typeof record.error === 'string' && record.error ? record.error : undefined,
+    stream: toStream(record.stream),
+  });
+};
+
+/** Reads a history export (JSON array or CSV with a header row). */
+export const parseHistoryImport = (text: string, filename: string): DownloadHistory[] => {
+  const isJson = filename.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  let records: Record<string, unknown>[];
+
+  if (isJson) {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) throw new Error('Expected a JSON array of history entries');
+    records = parsed;
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header?.includes('url')) throw new Error('CSV needs a header row with a "url" column');
+    // Undo what historyToCsv did to keep cells from running as formulas.
+    const cell = (value = '') => (DEFUSED_FORMULA.test(value) ? value.slice(1) : value);
+    records = rows.map(row => Object.fromEntries(header.map((column, i) => [column, cell(row[i])])));
+  }
+
+  return records
+    .filter(record => record && typeof record === 'object')
+    .map(toEntry)
+    .filter((entry): entry is DownloadHistory => entry !== null);
+};
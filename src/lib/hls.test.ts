@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { parseHlsMediaPlaylist, parseHlsVariants, playlistExtension } from './hls';
+import master from './__fixtures__/master.m3u8?raw';
+import byterange from './__fixtures__/byterange.m3u8?raw';
+import segments from './__fixtures__/segments.m3u8?raw';
+import encrypted from './__fixtures__/encrypted.m3u8?raw';
+import live from './__fixtures__/live.m3u8?raw';
+
+const BASE = 'https://example.com/show/index.m3u8';
+
+describe('parseHlsVariants', () => {
+  it('lists video renditions best first, then audio, with resolved playlist URLs', () => {
+    expect(parseHlsVariants(master, BASE)).toEqual([
+      {
+        id: 'v1',
+        label: '720p · 2500 kbps',
+        kind: 'video',
+        bandwidth: 2500000,
+        width: 1280,
+        height: 720,
+        codecs: 'avc1.4d401f,mp4a.40.2',
+        extension: 'ts',
+        playlistUrl: 'https://cdn.example.com/720p/index.m3u8',
+      },
+      {
+        id: 'v0',
+        label: '360p · 800 kbps',
+        kind: 'video',
+        bandwidth: 800000,
+        width: 640,
+        height: 360,
+        codecs: 'avc1.4d401e,mp4a.40.2',
+        extension: 'ts',
+        playlistUrl: 'https://example.com/show/360p/index.m3u8',
+      },
+      {
+        id: 'a0',
+        label: 'Audio: English',
+        kind: 'audio',
+        extension: 'ts',
+        playlistUrl: 'https://example.com/show/audio/en.m3u8',
+      },
+    ]);
+  });
+
+  it('treats a media playlist as its own single rendition', () => {
+    expect(parseHlsVariants(segments, BASE)).toEqual([
+      { id: 'v0', label: 'Default', kind: 'video', extension: 'ts', playlistUrl: BASE },
+    ]);
+  });
+
+  it('names an fMP4 media playlist for what it holds', () => {
+    expect(parseHlsVariants(byterange, BASE)[0].extension).toBe('mp4');
+  });
+
+  it('rejects anything that is not a playlist', () => {
+    expect(() => parseHlsVariants('<html></html>', BASE)).toThrow('Not an HLS playlist');
+  });
+});
+
+describe('parseHlsMediaPlaylist', () => {
+  it('resolves segment URLs against the playlist', () => {
+    expect(parseHlsMediaPlaylist(segments, BASE)).toEqual({
+      segments: [
+        { url: 'https://example.com/show/seg0.ts', range: undefined },
+        { url: 'https://example.com/show/seg1.ts', range: undefined },
+        { url: 'https://example.com/show/seg2.ts', range: undefined },
+      ],
+    });
+  });
+
+  it('reads the init map and byte ranges, continuing from the previous range without an offset', () => {
+    const url = 'https://example.com/show/main.mp4';
+    expect(parseHlsMediaPlaylist(byterange, BASE)).toEqual({
+      init: { url, range: { start: 0, end: 719 } },
+      segments: [
+        { url, range: { start: 720, end: 1719 } },
+        { url, range: { start: 1720, end: 2919 } },
+        { url, range: { start: 2920, end: 3419 } },
+      ],
+    });
+  });
+
+  it('rejects encrypted streams', () => {
+    expect(() => parseHlsMediaPlaylist(encrypted, BASE)).toThrow('Encrypted HLS streams (AES-128) are not supported');
+  });
+
+  it('rejects live playlists', () => {
+    expect(() => parseHlsMediaPlaylist(live, BASE)).toThrow('Live HLS streams are not supported');
+  });
+});
+
+describe('playlistExtension', () => {
+  it('tells fragmented MP4 from MPEG-TS', () => {
+    expect(playlistExtension(segments, BASE)).toBe('ts');
+    expect(playlistExtension(byterange, BASE)).toBe('mp4');
+    expect(playlistExtension(segments.replace(/\.ts/g, '.m4s'), BASE)).toBe('mp4');
+  });
+});
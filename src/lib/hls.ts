@@ -0,0 +1,132 @@
+import type { Segment, StreamVariant } from './stream';
+import { getFileExtension } from './media';
+
+const resolve = (uri: string, baseUrl: string) => new URL(uri, baseUrl).toString();
+
+/** Parses an attribute list such as `BANDWIDTH=1280000,CODECS="avc1,mp4a"`. */
+export const parseAttributes = (list: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(list))) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+  return attributes;
+};
+
+const tagValue = (line: string) => line.slice(line.indexOf(':') + 1);
+
+const lines = (text: string) => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+export const isHlsPlaylist = (text: string) => text.trimStart().startsWith('#EXTM3U');
+
+export const isMasterPlaylist = (text: string) => text.includes('#EXT-X-STREAM-INF');
+
+const FMP4_EXTENSIONS = ['m4s', 'mp4'];
+
+/**
+ * What a media playlist's segments join up into: fragmented MP4 (CMAF) when
+ * there's an init map or .m4s segments, MPEG-TS otherwise.
+ */
+export const playlistExtension = (text: string, baseUrl: string) =>
+  text.includes('#EXT-X-MAP')
+  || lines(text).some(line => !line.startsWith('#') && FMP4_EXTENSIONS.includes(getFileExtension(resolve(line, baseUrl))))
+    ? 'mp4'
+    : 'ts';
+
+const describe = (bandwidth?: number, height?: number) =>
+  [height ? `${height}p` : null, bandwidth ? `${Math.round(bandwidth / 1000)} kbps` : null]
+    .filter(Boolean)
+    .join(' · ') || 'Default';
+
+/**
+ * Lists the renditions in an HLS playlist. A media playlist (no variants)
+ * comes back as a single default entry pointing at itself. A master
+ * playlist doesn't say how its renditions are packaged, so their extension
+ * is a guess until the media playlist is read.
+ */
+export const parseHlsVariants = (text: string, baseUrl: string): StreamVariant[] => {
+  if (!isHlsPlaylist(text)) throw new Error('Not an HLS playlist');
+  if (!isMasterPlaylist(text)) {
+    return [{ id: 'v0', label: 'Default', kind: 'video', extension: playlistExtension(text, baseUrl), playlistUrl: baseUrl }];
+  }
+
+  const variants: StreamVariant[] = [];
+  const all = lines(text);
+  all.forEach((line, i) => {
+    if (line.startsWith('#EXT-X-STREAM-INF')) {
+      const attributes = parseAttributes(tagValue(line));
+      const uri = all.slice(i + 1).find(next => !next.startsWith('#'));
+      if (!uri) return;
+      const bandwidth = Number(attributes.BANDWIDTH) || undefined;
+      const [width, height] = (attributes.RESOLUTION || '').split('x').map(Number);
+      variants.push({
+        id: `v${variants.filter(v => v.kind === 'video').length}`,
+        label: describe(bandwidth, height || undefined),
+        kind: 'video',
+        bandwidth,
+        width: width || undefined,
+        height: height || undefined,
+        codecs: attributes.CODECS,
+        extension: 'ts',
+        playlistUrl: resolve(uri, baseUrl),
+      });
+    } else if (line.startsWith('#EXT-X-MEDIA')) {
+      const attributes = parseAttributes(tagValue(line));
+      if (attributes.TYPE !== 'AUDIO' || !attributes.URI) return;
+      variants.push({
+        id: `a${variants.filter(v => v.kind === 'audio').length}`,
+        label: `Audio: ${attributes.NAME || attributes.LANGUAGE || 'default'}`,
+        kind: 'audio',
+        extension: 'ts',
+        playlistUrl: resolve(attributes.URI, baseUrl),
+      });
+    }
+  });
+
+  // Highest quality first.
+  return variants.sort((a, b) => (b.bandwidth ?? 0) - (a.bandwidth ?? 0));
+};
+
+export interface HlsMediaPlaylist {
+  init?: Segment;
+  segments: Segment[];
+}
+
+const parseByteRange = (value: string, previousEnd: number) => {
+  const [length, offset] = value.split('@').map(Number);
+  const start = Number.isFinite(offset) ? offset : previousEnd;
+  return { start, end: start + length - 1 };
+};
+
+export const parseHlsMediaPlaylist = (text: string, baseUrl: string): HlsMediaPlaylist => {
+  if (!isHlsPlaylist(text)) throw new Error('Not an HLS playlist');
+  if (!text.includes('#EXT-X-ENDLIST')) {
+    throw new Error('Live HLS streams are not supported');
+  }
+
+  const playlist: HlsMediaPlaylist = { segments: [] };
+  let pendingRange: Segment['range'];
+  let lastEnd = 0;
+
+  for (const line of lines(text)) {
+    if (line.startsWith('#EXT-X-KEY')) {
+      const { METHOD } = parseAttributes(tagValue(line));
+      if (METHOD && METHOD !== 'NONE') throw new Error(`Encrypted HLS streams (${METHOD}) are not supported`);
+    } else if (line.startsWith('#EXT-X-MAP')) {
+      const attributes = parseAttributes(tagValue(line));
+      playlist.init = {
+        url: resolve(attributes.URI, baseUrl),
+        range: attributes.BYTERANGE ? parseByteRange(attributes.BYTERANGE, 0) : undefined,
+      };
+    } else if (line.startsWith('#EXT-X-BYTERANGE')) {
+      pendingRange = parseByteRange(tagValue(line), lastEnd);
+      lastEnd = pendingRange.end + 1;
+    } else if (!line.startsWith('#')) {
+      playlist.segments.push({ url: resolve(line, baseUrl), range: pendingRange });
+      pendingRange = undefined;
+    }
+  }
+
+  return playlist;
+};
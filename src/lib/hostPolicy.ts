@@ -0,0 +1,118 @@
+import { DownloadError } from './errors';
+import { formatBytes } from './format';
+
+/** Limits for downloads from the hosts `host` matches. */
+export interface HostPolicy {
+  /** An exact host, "*.example.com" for it and its subdomains, or "*" for every host. */
+  host: string;
+  /** Downloads from one host at a time; 0 leaves it to the queue's own limit. */
+  maxConnections: number;
+  /** Milliseconds between starting one download from a host and the next. */
+  minDelay: number;
+  /** Bytes; 0 for no limit. */
+  maxFileSize: number;
+  /** MIME types such as "image/*" or "video/mp4"; empty allows anything. */
+  allowedTypes: string[];
+  /** Failed attempts in a row before the host's downloads are paused; 0 never pauses. */
+  pauseAfterFailures: number;
+}
+
+export const DEFAULT_HOST_POLICIES: HostPolicy[] = [
+  { host: '*', maxConnections: 2, minDelay: 500, maxFileSize: 0, allowedTypes: [], pauseAfterFailures: 5 },
+];
+
+export const NEW_HOST_POLICY: HostPolicy = {
+  host: '',
+  maxConnections: 1,
+  minDelay: 1000,
+  maxFileSize: 0,
+  allowedTypes: [],
+  pauseAfterFailures: 3,
+};
+
+const NO_LIMITS: Omit<HostPolicy, 'host'> = {
+  maxConnections: 0,
+  minDelay: 0,
+  maxFileSize: 0,
+  allowedTypes: [],
+  pauseAfterFailures: 0,
+};
+
+export const hostKey = (url: string): string => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+};
+
+// Higher is more specific; -1 doesn't match.
+const specificity = (pattern: string, host: string) => {
+  const rule = pattern.trim().toLowerCase();
+  if (rule === '*') return 0;
+  if (rule.startsWith('*.')) {
+    const domain = rule.slice(2);
+    return host === domain || host.endsWith(`.${domain}`) ? domain.length : -1;
+  }
+  return rule === host ? Number.MAX_SAFE_INTEGER : -1;
+};
+
+/** The most specific policy for `url`'s host, with the host it applies to. */
+export const policyFor = (url: string, policies: HostPolicy[]): HostPolicy => {
+  const host = hostKey(url);
+  let best: HostPolicy | undefined;
+  let bestScore = -1;
+  for (const policy of policies) {
+    const score = specificity(policy.host, host);
+    if (score > bestScore) {
+      best = policy;
+      bestScore = score;
+    }
+  }
+  return { ...NO_LIMITS, ...best, host };
+};
+
+const baseType = (mime: string) => mime.split(';')[0].trim().toLowerCase();
+
+export const isTypeAllowed = (mime: string, allowedTypes: string[]): boolean => {
+  if (allowedTypes.length === 0) return true;
+  const type = baseType(mime);
+  return allowedTypes.some(pattern => {
+    const allowed = baseType(pattern);
+    return allowed.endsWith('/*') ? type.startsWith(allowed.slice(0, -1)) : type === allowed;
+  });
+};
+
+const policyError = (message: string) => new DownloadError('policy', message, undefined, false);
+
+export const checkSize = (size: number, policy: HostPolicy) => {
+  if (policy.maxFileSize > 0 && size > policy.maxFileSize) {
+    throw policyError(`The file is larger than the ${formatBytes(policy.maxFileSize)} allowed for ${policy.host}`);
+  }
+};
+
+export const checkType = (mime: string | undefined, policy: HostPolicy) => {
+  if (mime && !isTypeAllowed(mime, policy.allowedTypes)) {
+    throw policyError(`${baseType(mime)} files aren't allowed from ${policy.host}`);
+  }
+};
+
+/**
+ * Rejects a response the policy rules out before its body is read. A generic
+ * binary type says nothing yet; the sniffed type is checked once it's known.
+ */
+export const checkResponse = (response: Response, policy: HostPolicy) => {
+  const type = response.headers.get('content-type');
+  const range = response.headers.get('content-range')?.match(/\/(\d+)$/);
+  const length = range ? range[1] : response.headers.get('content-length');
+  try {
+    if (length) checkSize(Number(length), policy);
+    if (type && baseType(type) !== 'application/octet-stream') checkType(type, policy);
+  } catch (error) {
+    response.body?.cancel().catch(() => undefined);
+    throw error;
+  }
+};
+
+export const parseAllowedTypes = (text: string): string[] =>
+  text.split(/[\s,]+/).map(type => type.trim().toLowerCase()).filter(Boolean);
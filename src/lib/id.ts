@@ -0,0 +1,5 @@
+/** Unique enough to key queue and history records created in the same tick. */
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,146 @@
+import type { MediaItem } from '../types';
+import { DownloadError } from './errors';
+import { stripImageMetadata } from './exif';
+import { extensionFromMime, getFileExtension, withExtension } from './media';
+import ImageWorker from './imageOutput.worker?worker';
+
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+/** How downloaded images should come out. */
+export interface ImageOutput {
+  /** Undefined keeps each image's own format. */
+  format?: ImageFormat;
+  /** Longest allowed width and height in pixels; 0 for no limit. */
+  maxWidth: number;
+  maxHeight: number;
+  /** 1–100; used by JPEG and WebP. */
+  quality: number;
+}
+
+export const ORIGINAL_OUTPUT: ImageOutput = { maxWidth: 0, maxHeight: 0, quality: 90 };
+
+const FORMAT_MIMES: Record<ImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+// What OffscreenCanvas can write; other formats can only be kept as they are.
+const ENCODABLE = new Set(Object.values(FORMAT_MIMES));
+
+const FORMAT_EXTENSIONS: Record<ImageFormat, string> = { png: 'png', jpeg: 'jpg', webp: 'webp' };
+
+const FORMAT_LABELS: Record<ImageFormat, string> = { png: 'PNG', jpeg: 'JPEG', webp: 'WebP' };
+
+export interface ConvertRequest {
+  id: number;
+  blob: Blob;
+  /** What the blob holds; a file read back from disk is typed by its (new) name. */
+  mime: string;
+  /** MIME type to encode to. */
+  type: string;
+  maxWidth: number;
+  maxHeight: number;
+  quality: number;
+}
+
+export type ConvertResponse = { id: number; blob: Blob | null } | { id: number; error: string };
+
+/** True when `output` leaves images exactly as downloaded. */
+export const isPassthrough = (output: ImageOutput) => !output.format && !output.maxWidth && !output.maxHeight;
+
+/** An item's own output settings, else the queue's. */
+export const outputFor = (item: Pick<MediaItem, 'imageOutput'>, queueOutput: ImageOutput) =>
+  item.imageOutput ?? queueOutput;
+
+/** The extension images saved with `output` will have, if it dictates one. */
+export const outputExtension = (output: ImageOutput): string | undefined =>
+  output.format && FORMAT_EXTENSIONS[output.format];
+
+/** `item`'s filename with the extension `output` will produce. */
+export const outputFilename = (item: MediaItem, output: ImageOutput): string =>
+  withExtension(
+    item.filename,
+    outputExtension(output) ?? ((item.mime && extensionFromMime(item.mime)) || getFileExtension(item.url))
+  );
+
+/** A short summary such as `WebP · max 1920×1080 · quality 80`. */
+export const describeOutput = (output: ImageOutput): string => {
+  if (isPassthrough(output)) return 'Original';
+  const parts = [output.format ? FORMAT_LABELS[output.format] : 'Original format'];
+  if (output.maxWidth && output.maxHeight) parts.push(`max ${output.maxWidth}×${output.maxHeight}`);
+  else if (output.maxWidth) parts.push(`max ${output.maxWidth} wide`);
+  else if (output.maxHeight) parts.push(`max ${output.maxHeight} high`);
+  if (output.format !== 'png') parts.push(`quality ${output.quality}`);
+  return parts.join(' · ');
+};
+
+// One worker serves every conversion; it's started on first use.
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (blob: Blob | null) => void; reject: (error: unknown) => void }>();
+
+const conversionError = (message: string) =>
+  new DownloadError('conversion', `Could not convert the image: ${message}`, undefined, false);
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new ImageWorker();
+  worker.addEventListener('message', (event: MessageEvent<ConvertResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if ('error' in event.data) request.reject(conversionError(event.data.error));
+    else request.resolve(event.data.blob);
+  });
+  worker.addEventListener('error', event => {
+    for (const request of pending.values()) request.reject(conversionError(event.message || 'the worker failed'));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  });
+  return worker;
+};
+
+/**
+ * Re-encodes and/or scales an image off the main thread. Resolves to null
+ * when `output` wouldn't change it (already small enough and in the right
+ * format, or in a format we can only keep as is).
+ */
+export const convertImage = (blob: Blob, mime: string, output: ImageOutput): Promise<Blob | null> =>
+  new Promise((resolve, reject) => {
+    const type = output.format ? FORMAT_MIMES[output.format] : mime;
+    if (!ENCODABLE.has(type)) {
+      resolve(null);
+      return;
+    }
+    if (typeof Worker === 'undefined') {
+      reject(conversionError('this browser doesn’t support background workers'));
+      return;
+    }
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    const { maxWidth, maxHeight, quality } = output;
+    getWorker().postMessage({ id, blob, mime, type, maxWidth, maxHeight, quality } satisfies ConvertRequest);
+  });
+
+/**
+ * Applies `output` to a downloaded image, or, if that leaves it alone, strips
+ * its metadata when asked to. Returns `blob` itself when nothing changed.
+ */
+export const processImage = async (
+  blob: Blob,
+  mime: string | undefined,
+  output: ImageOutput,
+  stripMetadata: boolean
+): Promise<Blob> => {
+  if (!isPassthrough(output)) {
+    // Re-encoding doesn't carry any metadata over.
+    const converted = await convertImage(blob, mime || blob.type, output);
+    if (converted) return converted;
+  }
+  if (!stripMetadata) return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const stripped = stripImageMetadata(bytes);
+  return stripped === bytes ? blob : new Blob([stripped], { type: blob.type });
+};
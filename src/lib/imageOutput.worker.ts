@@ -0,0 +1,49 @@
+import type { ConvertRequest, ConvertResponse } from './imageOutput';
+
+// Only types are imported: pulling in imageOutput.ts itself would drag the
+// main-thread side (and this worker) into the worker bundle.
+const convert = async ({ blob, mime, type, maxWidth, maxHeight, quality }: ConvertRequest): Promise<Blob | null> => {
+  if (typeof OffscreenCanvas === 'undefined') throw new Error('this browser can’t draw images in a worker');
+
+  const bitmap = await createImageBitmap(blob).catch(() => {
+    throw new Error('the browser couldn’t decode it');
+  });
+  try {
+    const scale = Math.min(
+      1,
+      maxWidth ? maxWidth / bitmap.width : 1,
+      maxHeight ? maxHeight / bitmap.height : 1
+    );
+    if (scale === 1 && type === mime) return null;
+
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('no 2D canvas available');
+    if (type === 'image/jpeg') {
+      // JPEG has no alpha; transparent areas would otherwise turn black.
+      context.fillStyle = '#fff';
+      context.fillRect(0, 0, width, height);
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const converted = await canvas.convertToBlob({ type, quality: quality / 100 });
+    // Browsers quietly fall back to PNG for types they can't encode.
+    if (converted.type !== type) throw new Error(`this browser can’t encode ${type}`);
+    return converted;
+  } finally {
+    bitmap.close();
+  }
+};
+
+self.addEventListener('message', async (event: MessageEvent<ConvertRequest>) => {
+  let response: ConvertResponse;
+  try {
+    response = { id: event.data.id, blob: await convert(event.data) };
+  } catch (error) {
+    response = { id: event.data.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+});
@@ -0,0 +1,91 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { dedupeCandidates, extractFromCsv, extractFromFiles, extractUrls, normalizeUrl, parseSrcset } from './importer';
+
+const urls = (candidates: { url: string }[]) => candidates.map(candidate => candidate.url);
+
+describe('extractUrls from text', () => {
+  it('finds URLs in free text and leaves off the punctuation around them', () => {
+    expect(urls(extractUrls('See https://example.com/a.jpg, and (https://example.com/b.png).\nhttps://example.com/c.mp4!')))
+      .toEqual(['https://example.com/a.jpg', 'https://example.com/b.png', 'https://example.com/c.mp4']);
+  });
+
+  it('keeps commas and semicolons that are part of the URL', () => {
+    const cloudinary = 'https://res.cloudinary.com/demo/image/upload/w_100,h_100,c_fill/sample.jpg';
+    const matrix = 'https://example.com/media;type=image/photo.jpg';
+    expect(urls(extractUrls(`${cloudinary} ${matrix}`))).toEqual([cloudinary, matrix]);
+  });
+});
+
+describe('extractFromCsv', () => {
+  it('splits on the delimiter but not inside quoted cells', () => {
+    const csv = 'name,url\nsample,"https://res.cloudinary.com/demo/w_100,h_100/sample.jpg"\nother,https://example.com/b.png\n';
+    expect(urls(extractFromCsv(csv))).toEqual([
+      'https://res.cloudinary.com/demo/w_100,h_100/sample.jpg',
+      'https://example.com/b.png',
+    ]);
+  });
+
+  it('reads semicolon-separated files', () => {
+    expect(urls(extractFromCsv('name;url\na;https://example.com/a.jpg;x\n'))).toEqual(['https://example.com/a.jpg']);
+  });
+
+  it('is used for .csv files', async () => {
+    const file = new File(['url,size\nhttps://example.com/a.jpg,100\n'], 'list.csv', { type: 'text/csv' });
+    expect(urls(await extractFromFiles([file]))).toEqual(['https://example.com/a.jpg']);
+  });
+});
+
+describe('parseSrcset', () => {
+  it('takes the URL from each candidate', () => {
+    expect(parseSrcset('small.jpg 480w, https://cdn.example.com/w_800,q_80/large.jpg 800w,  huge.jpg 2x'))
+      .toEqual(['small.jpg', 'https://cdn.example.com/w_800,q_80/large.jpg', 'huge.jpg']);
+  });
+});
+
+describe('extractUrls from HTML', () => {
+  it('collects embedded media, resolved against the base URL', () => {
+    const html = `
+      <img src="/a.jpg" srcset="/a-2x.jpg 2x">
+      <video src="clip.mp4"></video>
+      <picture><source srcset="/b.webp 1x"></picture>
+      <meta property="og:image" content="https://cdn.example.com/og.png">`;
+    expect(extractUrls(html, 'https://example.com/page/')).toEqual([
+      { url: 'https://example.com/a.jpg', source: 'img' },
+      { url: 'https://example.com/a-2x.jpg', source: 'srcset' },
+      { url: 'https://example.com/page/clip.mp4', source: 'video' },
+      { url: 'https://example.com/b.webp', source: 'srcset' },
+      { url: 'https://cdn.example.com/og.png', source: 'meta' },
+    ]);
+  });
+
+  it('takes links to media and URLs written in the text', () => {
+    const html = '<ul><li><a href="https://example.com/a.jpg">first</a></li>'
+      + '<li><a href="https://example.com/about">about</a> https://example.com/b.mp4</li></ul>';
+    expect(extractUrls(html)).toEqual([
+      { url: 'https://example.com/a.jpg', source: 'link' },
+      { url: 'https://example.com/b.mp4', source: 'text' },
+    ]);
+  });
+
+  it('falls back to every link when nothing else turns up', () => {
+    const html = '<a href="https://example.com/gallery/1">One</a><a href="https://example.com/gallery/2">Two</a>';
+    expect(urls(extractUrls(html))).toEqual(['https://example.com/gallery/1', 'https://example.com/gallery/2']);
+  });
+});
+
+describe('dedupeCandidates', () => {
+  it('drops repeats of the same normalized URL and anything not http(s)', () => {
+    const found = dedupeCandidates([
+      { url: 'https://Example.com:443/a.jpg?b=2&a=1#top', source: 'text' },
+      { url: 'https://example.com/a.jpg?a=1&b=2', source: 'img' },
+      { url: 'javascript:alert(1)', source: 'link' },
+      { url: 'https://example.com/b.jpg', source: 'text' },
+    ]);
+    expect(urls(found)).toEqual(['https://Example.com:443/a.jpg?b=2&a=1#top', 'https://example.com/b.jpg']);
+  });
+
+  it('normalizes host case, default ports, fragments and parameter order', () => {
+    expect(normalizeUrl(' HTTP://Example.com:80/x?b=2&a=1#frag ')).toBe('http://example.com/x?a=1&b=2');
+  });
+});
@@ -0,0 +1,178 @@
+import { getMediaType } from './media';
+
+export interface ImportCandidate {
+  url: string;
+  /** Where in the source the URL was found, for the preview list. */
+  source: 'text' | 'csv' | 'img' | 'srcset' | 'video' | 'audio' | 'source' | 'meta' | 'link';
+}
+
+// Commas and semicolons are left in: CDNs put them in paths (`w_100,h_100`).
+const URL_PATTERN = /https?:\/\/[^\s"'<>|]+/gi;
+// Punctuation that more likely ends the sentence than the URL.
+const TRAILING_PUNCTUATION = /[).\],;:!?]+$/;
+const TEXT_FILE_EXTENSIONS = ['txt', 'csv', 'tsv', 'html', 'htm', 'url'];
+
+export const isHttpUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Canonical form used for duplicate checks: lowercase host, no fragment, no
+ * default port and query parameters in a stable order.
+ */
+export const normalizeUrl = (value: string): string => {
+  try {
+    const url = new URL(value.trim());
+    url.hash = '';
+    url.hostname = url.hostname.toLowerCase();
+    if ((url.protocol === 'http:' && url.port === '80') || (url.protocol === 'https:' && url.port === '443')) {
+      url.port = '';
+    }
+    url.searchParams.sort();
+    return url.toString();
+  } catch {
+    return value.trim();
+  }
+};
+
+export const looksLikeHtml = (text: string): boolean => /<\s*(html|body|img|video|audio|source|meta|picture|div|a)\b/i.test(text);
+
+export const parseSrcset = (srcset: string): string[] =>
+  srcset
+    .split(/,\s+/)
+    .map(candidate => candidate.trim().split(/\s+/)[0])
+    .filter(Boolean);
+
+const resolve = (value: string | null, baseUrl?: string): string | null => {
+  if (!value) return null;
+  try {
+    return new URL(value.trim(), baseUrl).toString();
+  } catch {
+    return null;
+  }
+};
+
+const parseHtml = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+const baseOf = (doc: Document, baseUrl?: string) =>
+  resolve(doc.querySelector('base')?.getAttribute('href') ?? null, baseUrl) ?? baseUrl;
+
+const linksIn = (doc: Document, base?: string): string[] =>
+  Array.from(doc.querySelectorAll('a[href]'), link => resolve(link.getAttribute('href'), base))
+    .filter((url): url is string => url !== null);
+
+const mediaIn = (doc: Document, baseUrl?: string): ImportCandidate[] => {
+  const base = baseOf(doc, baseUrl);
+  const found: ImportCandidate[] = [];
+  const push = (value: string | null, source: ImportCandidate['source']) => {
+    const url = resolve(value, base);
+    if (url) found.push({ url, source });
+  };
+
+  doc.querySelectorAll('img').forEach(img => {
+    push(img.getAttribute('src'), 'img');
+    parseSrcset(img.getAttribute('srcset') || '').forEach(url => push(url, 'srcset'));
+  });
+  doc.querySelectorAll('video').forEach(video => push(video.getAttribute('src'), 'video'));
+  doc.querySelectorAll('audio').forEach(audio => push(audio.getAttribute('src'), 'audio'));
+  doc.querySelectorAll('source').forEach(source => {
+    push(source.getAttribute('src'), 'source');
+    parseSrcset(source.getAttribute('srcset') || '').forEach(url => push(url, 'srcset'));
+  });
+  doc.querySelectorAll('meta[property], meta[name]').forEach(meta => {
+    const key = meta.getAttribute('property') || meta.getAttribute('name') || '';
+    if (/^(og|twitter):(image|video|audio)(:url|:secure_url)?$/i.test(key)) {
+      push(meta.getAttribute('content'), 'meta');
+    }
+  });
+  linksIn(doc, base)
+    .filter(url => getMediaType(url) !== 'other')
+    .forEach(url => push(url, 'link'));
+
+  return found;
+};
+
+/** Media a page embeds or links to directly. */
+export const extractFromHtml = (html: string, baseUrl?: string): ImportCandidate[] => mediaIn(parseHtml(html), baseUrl);
+
+export const extractFromText = (text: string): ImportCandidate[] =>
+  (text.match(URL_PATTERN) || []).map(url => ({ url: url.replace(TRAILING_PUNCTUATION, ''), source: 'text' as const }));
+
+// Splits CSV into cells, honouring quotes, so a quoted URL keeps its commas.
+const csvCells = (text: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') cell += char;
+      else if (text[i + 1] === '"') cell += text[++i];
+      else quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter || char === '\n' || char === '\r') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+};
+
+/** URLs in CSV cells. Semicolon-separated files, as some spreadsheets save, work too. */
+export const extractFromCsv = (text: string): ImportCandidate[] => {
+  const header = text.split(/\r?\n/, 1)[0];
+  const count = (char: string) => header.split(char).length - 1;
+  const delimiter = count(';') > count(',') ? ';' : ',';
+  return csvCells(text, delimiter).flatMap(cell =>
+    (cell.trim().match(URL_PATTERN) || []).map(url => ({ url, source: 'csv' as const }))
+  );
+};
+
+/** Drops non-http(s) URLs and repeats of an already-seen normalized URL. */
+export const dedupeCandidates = (candidates: ImportCandidate[]): ImportCandidate[] => {
+  const seen = new Set<string>();
+  return candidates.filter(candidate => {
+    if (!isHttpUrl(candidate.url)) return false;
+    const key = normalizeUrl(candidate.url);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Pulls every http(s) media URL out of pasted or dropped content, in the order
+ * they appear, with duplicates removed.
+ */
+export const extractUrls = (content: string, baseUrl?: string): ImportCandidate[] => {
+  if (!looksLikeHtml(content)) return dedupeCandidates(extractFromText(content));
+  const doc = parseHtml(content);
+  const found = [...mediaIn(doc, baseUrl), ...extractFromText(doc.body?.textContent ?? '')];
+  if (found.length > 0) return dedupeCandidates(found);
+  // Copied links to pages rather than files still mean "import these".
+  return dedupeCandidates(linksIn(doc, baseOf(doc, baseUrl)).map(url => ({ url, source: 'link' as const })));
+};
+
+export const isImportableFile = (file: File): boolean => {
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+  return file.type.startsWith('text/') || TEXT_FILE_EXTENSIONS.includes(ext);
+};
+
+const isCsv = (file: File) => file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv');
+
+export const extractFromFiles = async (files: File[]): Promise<ImportCandidate[]> => {
+  const found = await Promise.all(files.filter(isImportableFile).map(async file => {
+    const content = await file.text();
+    return isCsv(file) ? extractFromCsv(content) : extractUrls(content);
+  }));
+  return dedupeCandidates(found.flat());
+};
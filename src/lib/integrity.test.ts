@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { IntegrityError, checksumFromHeaders, verifyChecksums } from './integrity';
+
+const MD5 = '9e107d9d372bb6826bd81d3542a419d6';
+const ETAG = `"${MD5}"`;
+
+describe('checksumFromHeaders', () => {
+  it('trusts Content-MD5', () => {
+    expect(checksumFromHeaders(new Headers({ 'content-md5': 'nhB9nTcrtoJr2B01QqQZ1g==' })))
+      .toEqual({ algorithm: 'md5', hex: MD5, source: 'content-md5' });
+  });
+
+  it('trusts an MD5-shaped ETag from a plain S3 object', () => {
+    const headers = new Headers({ etag: ETAG, 'x-amz-request-id': 'R1', 'x-amz-server-side-encryption': 'AES256' });
+    expect(checksumFromHeaders(headers)).toMatchObject({ hex: MD5, source: 'etag', advisory: false });
+  });
+
+  it('only takes an MD5-shaped ETag as advisory anywhere else', () => {
+    const kms = new Headers({ etag: ETAG, 'x-amz-request-id': 'R1', 'x-amz-server-side-encryption': 'aws:kms' });
+    const customerKey = new Headers({ etag: ETAG, server: 'AmazonS3', 'x-amz-server-side-encryption-customer-algorithm': 'AES256' });
+    const elsewhere = new Headers({ etag: ETAG });
+    for (const headers of [kms, customerKey, elsewhere]) {
+      expect(checksumFromHeaders(headers)).toMatchObject({ hex: MD5, advisory: true });
+    }
+  });
+
+  it('ignores encoded bodies and ETags that are not MD5-shaped', () => {
+    expect(checksumFromHeaders(new Headers({ etag: ETAG, 'content-encoding': 'gzip' }))).toBeNull();
+    expect(checksumFromHeaders(new Headers({ etag: `W/${ETAG}` }))).toBeNull();
+    expect(checksumFromHeaders(new Headers({ etag: `"${MD5}-2"` }))).toBeNull();
+  });
+});
+
+describe('verifyChecksums', () => {
+  const digests = { sha256: 'a'.repeat(64), md5: 'b'.repeat(32) };
+
+  it('throws for a mismatch it can trust', () => {
+    expect(() => verifyChecksums(digests, [{ algorithm: 'md5', hex: MD5, source: 'content-md5' }]))
+      .toThrow(IntegrityError);
+  });
+
+  it('returns advisory mismatches instead of throwing', () => {
+    const advisory = { algorithm: 'md5' as const, hex: MD5, source: 'etag' as const, advisory: true };
+    expect(verifyChecksums(digests, [advisory])).toEqual([advisory]);
+    expect(verifyChecksums({ ...digests, md5: MD5 }, [advisory])).toEqual([]);
+  });
+});
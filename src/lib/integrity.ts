@@ -0,0 +1,127 @@
+import { Md5 } from './md5';
+import { Sha256 } from './sha256';
+
+export type ChecksumAlgorithm = 'sha256' | 'md5';
+
+export interface Checksum {
+  algorithm: ChecksumAlgorithm;
+  /** Lowercase hex. */
+  hex: string;
+  /** Where the expected value came from, for error messages. */
+  source: 'user' | 'content-md5' | 'etag';
+  /** A mismatch is only worth a warning: the value may not be a hash of the body at all. */
+  advisory?: boolean;
+}
+
+export interface Digests {
+  sha256: string;
+  md5?: string;
+}
+
+const HEX_LENGTHS: Record<number, ChecksumAlgorithm> = { 64: 'sha256', 32: 'md5' };
+
+const base64ToHex = (value: string) => {
+  try {
+    return Array.from(atob(value), char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+  } catch {
+    return null;
+  }
+};
+
+const SOURCE_LABELS: Record<Checksum['source'], string> = {
+  user: 'expected checksum',
+  'content-md5': 'Content-MD5 header',
+  etag: 'ETag',
+};
+
+/** Thrown when downloaded bytes don't hash to what we were told to expect. */
+export class IntegrityError extends Error {
+  /** Downloading the same bytes again won't change their hash. */
+  readonly retryable = false;
+
+  constructor(readonly expected: Checksum, readonly actual: string) {
+    super(`${expected.algorithm.toUpperCase()} does not match the ${SOURCE_LABELS[expected.source]}`);
+    this.name = 'IntegrityError';
+  }
+}
+
+/**
+ * Reads a user-entered checksum: `sha256:<hex>`, `md5:<hex>`, an SRI value
+ * such as `sha256-<base64>`, or bare hex (the length picks the algorithm).
+ */
+export const parseChecksum = (value: string): Checksum | null => {
+  const trimmed = value.trim();
+  const sri = trimmed.match(/^(sha256|md5)-([A-Za-z0-9+/=]+)$/i);
+  if (sri) {
+    const hex = base64ToHex(sri[2]);
+    const algorithm = sri[1].toLowerCase() as ChecksumAlgorithm;
+    return hex && HEX_LENGTHS[hex.length] === algorithm ? { algorithm, hex, source: 'user' } : null;
+  }
+
+  const match = trimmed.match(/^(?:(sha-?256|md5)\s*[:=]\s*)?([0-9a-f]+)$/i);
+  if (!match) return null;
+  const hex = match[2].toLowerCase();
+  const algorithm = HEX_LENGTHS[hex.length];
+  const named = match[1]?.toLowerCase().replace('-', '');
+  if (!algorithm || (named && named !== algorithm)) return null;
+  return { algorithm, hex, source: 'user' };
+};
+
+// S3 ETags are the MD5 of the body, unless the object is encrypted with KMS
+// or a customer-provided key.
+const isPlainS3Object = (headers: Headers) =>
+  (headers.has('x-amz-request-id') || headers.get('server') === 'AmazonS3')
+  && !headers.get('x-amz-server-side-encryption')?.startsWith('aws:kms')
+  && !headers.has('x-amz-server-side-encryption-customer-algorithm');
+
+/**
+ * Picks a checksum the server vouched for. Content-MD5 is explicit. A strong
+ * ETag of exactly 32 hex digits is only known to be the MD5 of the body on
+ * plain S3 objects; anywhere else it's advisory. Neither holds once the body
+ * has been content-encoded.
+ */
+export const checksumFromHeaders = (headers: Headers): Checksum | null => {
+  const encoding = headers.get('content-encoding');
+  if (encoding && encoding !== 'identity') return null;
+
+  const contentMd5 = headers.get('content-md5');
+  const hex = contentMd5 ? base64ToHex(contentMd5.trim()) : null;
+  if (hex?.length === 32) return { algorithm: 'md5', hex, source: 'content-md5' };
+
+  const etag = headers.get('etag')?.match(/^"([0-9a-f]{32})"$/i);
+  if (etag) return { algorithm: 'md5', hex: etag[1].toLowerCase(), source: 'etag', advisory: !isPlainS3Object(headers) };
+  return null;
+};
+
+/** Hashes a stream in one pass; MD5 is only computed when asked for. */
+export const hashStream = async (stream: ReadableStream<Uint8Array>, withMd5 = false): Promise<Digests> => {
+  const sha256 = new Sha256();
+  const md5 = withMd5 ? new Md5() : null;
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    sha256.update(value);
+    md5?.update(value);
+  }
+  return { sha256: sha256.digestHex(), md5: md5?.digestHex() };
+};
+
+/**
+ * Throws an IntegrityError for the first checksum the digests don't match.
+ * Advisory checksums that don't match are returned instead.
+ */
+export const verifyChecksums = (digests: Digests, checksums: Checksum[]): Checksum[] => {
+  const unconfirmed: Checksum[] = [];
+  for (const checksum of checksums) {
+    const actual = digests[checksum.algorithm];
+    if (actual === undefined || actual === checksum.hex) continue;
+    if (checksum.advisory) unconfirmed.push(checksum);
+    else throw new IntegrityError(checksum, actual);
+  }
+  return unconfirmed;
+};
+
+/** Warning for an advisory checksum the download didn't match. */
+export const describeUnconfirmed = (checksum: Checksum) =>
+  `${checksum.algorithm.toUpperCase()} does not match the ${SOURCE_LABELS[checksum.source]}, which may not be a checksum of the file`;
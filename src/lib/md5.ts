@@ -0,0 +1,103 @@
+// Servers still advertise MD5 (Content-MD5, S3-style ETags), and SubtleCrypto
+// doesn't offer it at all. Same incremental shape as Sha256.
+
+const S = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22,
+  5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20,
+  4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23,
+  6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+
+const K = new Uint32Array(64).map((_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 2 ** 32));
+
+const rotl = (x: number, n: number) => (x << n) | (x >>> (32 - n));
+
+export class Md5 {
+  private state = new Uint32Array([0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476]);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private bytes = 0;
+  private m = new Uint32Array(16);
+
+  update(data: Uint8Array): this {
+    let offset = 0;
+    this.bytes += data.length;
+
+    if (this.blockLength > 0) {
+      const take = Math.min(64 - this.blockLength, data.length);
+      this.block.set(data.subarray(0, take), this.blockLength);
+      this.blockLength += take;
+      offset = take;
+      if (this.blockLength < 64) return this;
+      this.compress(this.block, 0);
+      this.blockLength = 0;
+    }
+
+    while (offset + 64 <= data.length) {
+      this.compress(data, offset);
+      offset += 64;
+    }
+
+    if (offset < data.length) {
+      this.block.set(data.subarray(offset));
+      this.blockLength = data.length - offset;
+    }
+    return this;
+  }
+
+  /** Finishes the hash and returns it as lowercase hex. */
+  digestHex(): string {
+    const bitLength = this.bytes * 8;
+    const padLength = this.blockLength < 56 ? 56 - this.blockLength : 120 - this.blockLength;
+    const padding = new Uint8Array(padLength + 8);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padLength, bitLength >>> 0, true);
+    view.setUint32(padLength + 4, Math.floor(bitLength / 2 ** 32), true);
+    const bytes = this.bytes;
+    this.update(padding);
+    this.bytes = bytes;
+
+    // MD5 emits its state words little-endian.
+    const digest = new DataView(new ArrayBuffer(16));
+    this.state.forEach((word, i) => digest.setUint32(i * 4, word, true));
+    return Array.from(new Uint8Array(digest.buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  private compress(data: Uint8Array, offset: number) {
+    const m = this.m;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      m[i] = data[j] | (data[j + 1] << 8) | (data[j + 2] << 16) | (data[j + 3] << 24);
+    }
+
+    let [a, b, c, d] = this.state;
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+      const next = d;
+      d = c;
+      c = b;
+      b = (b + rotl((a + f + K[i] + m[g]) | 0, S[i])) | 0;
+      a = next;
+    }
+
+    const s = this.state;
+    s[0] += a; s[1] += b; s[2] += c; s[3] += d;
+  }
+}
+
+export const md5Hex = (data: Uint8Array): string => new Md5().update(data).digestHex();
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { detectMedia, sniffBytes } from './media';
+
+// A 14-byte file header followed by the size of the DIB header that comes next.
+const bmpHeader = (dibSize: number) => {
+  const bytes = new Uint8Array(64);
+  bytes.set([0x42, 0x4d]);
+  new DataView(bytes.buffer).setUint32(14, dibSize, true);
+  return bytes;
+};
+
+describe('sniffBytes', () => {
+  it('recognises a BMP by its DIB header size', () => {
+    expect(sniffBytes(bmpHeader(40))).toEqual({ mime: 'image/bmp', extension: 'bmp' });
+    expect(sniffBytes(bmpHeader(124))).toEqual({ mime: 'image/bmp', extension: 'bmp' });
+  });
+
+  it('does not take text that starts with "BM" for a BMP', () => {
+    expect(sniffBytes(new TextEncoder().encode('BMW owners club, 2024 meeting notes'))).toBeNull();
+    expect(sniffBytes(bmpHeader(0))).toBeNull();
+  });
+});
+
+describe('detectMedia', () => {
+  it('keeps a specific Content-Type when the bytes only look like "BM"', () => {
+    const headers = new Headers({ 'content-type': 'text/csv' });
+    const detected = detectMedia('https://example.com/cars', headers, new TextEncoder().encode('BMW,3 series,2019\n'));
+    expect(detected.mime).toBe('text/csv');
+  });
+});
@@ -0,0 +1,208 @@
+import type { MediaType } from '../types';
+
+const EXTENSION_TYPES: Record<MediaType, string[]> = {
+  image: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'avif', 'heic', 'ico', 'tif', 'tiff'],
+  video: ['mp4', 'm4v', 'webm', 'avi', 'mov', 'wmv', 'flv', 'mkv', 'ogv'],
+  audio: ['mp3', 'm4a', 'aac', 'wav', 'ogg', 'oga', 'opus', 'flac', 'weba'],
+  other: [],
+};
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+  'image/avif': 'avif',
+  'image/heic': 'heic',
+  'image/x-icon': 'ico',
+  'image/vnd.microsoft.icon': 'ico',
+  'image/tiff': 'tiff',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'video/x-msvideo': 'avi',
+  'video/x-matroska': 'mkv',
+  'video/x-flv': 'flv',
+  'video/ogg': 'ogv',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/opus': 'opus',
+  'audio/flac': 'flac',
+  'audio/webm': 'weba',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+};
+
+// Content types that say nothing about what the bytes actually are.
+const GENERIC_MIMES = ['application/octet-stream', 'binary/octet-stream', 'application/unknown', ''];
+
+export interface DetectedMedia {
+  type: MediaType;
+  extension: string;
+  mime?: string;
+  /** Filename suggested by the server via Content-Disposition. */
+  filename?: string;
+}
+
+export const extensionOf = (name: string): string =>
+  name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+export const getFileExtension = (url: string): string => {
+  try {
+    const urlObj = new URL(url);
+    const ext = extensionOf(urlObj.pathname.split('/').pop() || '');
+    if (ext) return ext;
+    // CDNs often pick the output format with a query parameter instead.
+    const format = urlObj.searchParams.get('format') || urlObj.searchParams.get('fm');
+    return format?.toLowerCase() || '';
+  } catch {
+    return '';
+  }
+};
+
+export const typeFromExtension = (ext: string): MediaType | null => {
+  const normalized = ext.toLowerCase();
+  for (const type of ['image', 'video', 'audio'] as const) {
+    if (EXTENSION_TYPES[type].includes(normalized)) return type;
+  }
+  return null;
+};
+
+export const typeFromMime = (mime: string): MediaType => {
+  if (mime.startsWith('image/')) return 'image';
+  if (mime.startsWith('video/')) return 'video';
+  if (mime.startsWith('audio/')) return 'audio';
+  return 'other';
+};
+
+export const extensionFromMime = (mime: string): string | undefined => MIME_EXTENSIONS[mime];
+
+export const getMediaType = (url: string): MediaType =>
+  typeFromExtension(getFileExtension(url)) ?? 'other';
+
+/** Replaces (or adds) the extension on `filename`. */
+export const withExtension = (filename: string, extension: string): string => {
+  if (!extension) return filename;
+  const dot = filename.lastIndexOf('.');
+  const base = dot > filename.lastIndexOf('/') + 1 ? filename.slice(0, dot) : filename;
+  return `${base}.${extension}`;
+};
+
+export const generateFilename = (url: string, extension?: string): string => {
+  const ext = extension || getFileExtension(url);
+  try {
+    const urlObj = new URL(url);
+    const filename = decodeURIComponent(urlObj.pathname.split('/').pop() || '') || 'download';
+    if (extension) return withExtension(filename, extension);
+    return filename.includes('.') || !ext ? filename : `${filename}.${ext}`;
+  } catch {
+    return ext ? `download_${Date.now()}.${ext}` : `download_${Date.now()}`;
+  }
+};
+
+export const parseContentDisposition = (header: string | null): string | undefined => {
+  if (!header) return undefined;
+  const extended = header.match(/filename\*\s*=\s*(?:UTF-8|utf-8)?''([^;]+)/);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // Fall through to the plain parameter.
+    }
+  }
+  const plain = header.match(/filename\s*=\s*("([^"]*)"|[^;]+)/);
+  const value = plain?.[2] ?? plain?.[1];
+  return value?.trim() || undefined;
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+// "BM" alone also starts plenty of text, so a BMP must have a known DIB header
+// size right after the 14-byte file header.
+const BMP_DIB_SIZES = [12, 40, 52, 56, 64, 108, 124];
+
+const isBmp = (bytes: Uint8Array) =>
+  startsWith(bytes, [0x42, 0x4d])
+  && bytes.length >= 18
+  && BMP_DIB_SIZES.includes(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(14, true));
+
+/** Identifies a file from its leading bytes. Needs the first ~64 bytes. */
+export const sniffBytes = (bytes: Uint8Array): { mime: string; extension: string } | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return { mime: 'image/png', extension: 'png' };
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return { mime: 'image/jpeg', extension: 'jpg' };
+  if (ascii(bytes, 0, 4) === 'GIF8') return { mime: 'image/gif', extension: 'gif' };
+  if (isBmp(bytes)) return { mime: 'image/bmp', extension: 'bmp' };
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) return { mime: 'image/x-icon', extension: 'ico' };
+  if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') return { mime: 'image/tiff', extension: 'tiff' };
+
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    const format = ascii(bytes, 8, 4);
+    if (format === 'WEBP') return { mime: 'image/webp', extension: 'webp' };
+    if (format === 'WAVE') return { mime: 'audio/wav', extension: 'wav' };
+    if (format === 'AVI ') return { mime: 'video/x-msvideo', extension: 'avi' };
+  }
+
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (brand === 'avif' || brand === 'avis') return { mime: 'image/avif', extension: 'avif' };
+    if (brand === 'heic' || brand === 'heix' || brand === 'mif1') return { mime: 'image/heic', extension: 'heic' };
+    if (brand === 'qt  ') return { mime: 'video/quicktime', extension: 'mov' };
+    if (brand === 'M4A ' || brand === 'M4B ') return { mime: 'audio/mp4', extension: 'm4a' };
+    return { mime: 'video/mp4', extension: 'mp4' };
+  }
+
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+    // EBML header; the DocType tells WebM apart from generic Matroska.
+    return ascii(bytes, 0, 64).includes('webm')
+      ? { mime: 'video/webm', extension: 'webm' }
+      : { mime: 'video/x-matroska', extension: 'mkv' };
+  }
+
+  if (ascii(bytes, 0, 3) === 'FLV') return { mime: 'video/x-flv', extension: 'flv' };
+  if (ascii(bytes, 0, 4) === 'OggS') return { mime: 'audio/ogg', extension: 'ogg' };
+  if (ascii(bytes, 0, 4) === 'fLaC') return { mime: 'audio/flac', extension: 'flac' };
+  if (ascii(bytes, 0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe6) === 0xe2)) {
+    return { mime: 'audio/mpeg', extension: 'mp3' };
+  }
+  if (ascii(bytes, 0, 4) === '%PDF') return { mime: 'application/pdf', extension: 'pdf' };
+  if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return { mime: 'application/zip', extension: 'zip' };
+
+  const text = ascii(bytes, 0, 64).trimStart();
+  if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) {
+    return { mime: 'image/svg+xml', extension: 'svg' };
+  }
+
+  return null;
+};
+
+/**
+ * Works out what a response really contains. Leading bytes win, then a
+ * specific Content-Type, then the Content-Disposition filename, and the URL
+ * extension only as a last resort.
+ */
+export const detectMedia = (url: string, headers: Headers, leadingBytes?: Uint8Array): DetectedMedia => {
+  const filename = parseContentDisposition(headers.get('content-disposition'));
+  const sniffed = leadingBytes ? sniffBytes(leadingBytes) : null;
+  if (sniffed) {
+    return { type: typeFromMime(sniffed.mime), extension: sniffed.extension, mime: sniffed.mime, filename };
+  }
+
+  const mime = (headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  if (!GENERIC_MIMES.includes(mime)) {
+    const extension = extensionFromMime(mime) || extensionOf(filename || '');
+    return { type: typeFromMime(mime), extension, mime, filename };
+  }
+
+  const extension = extensionOf(filename || '') || getFileExtension(url);
+  return { type: typeFromExtension(extension) ?? 'other', extension, filename };
+};
@@ -0,0 +1,156 @@
+import type { MediaItem, Settings } from '../types';
+import type { ImageFormat, ImageOutput } from './imageOutput';
+import { isHttpUrl } from './importer';
+
+/** One queued URL as it travels in a preset. */
+export interface PresetItem {
+  url: string;
+  /** Only set when the sender renamed the item by hand. */
+  filename?: string;
+  expectedChecksum?: string;
+  imageOutput?: ImageOutput;
+}
+
+/** A queue someone can hand to someone else, as a JSON file or a link. */
+export interface QueuePreset {
+  version: 1;
+  items: PresetItem[];
+  /** The sender's queue-wide image settings. */
+  imageOutput?: ImageOutput;
+  stripMetadata?: boolean;
+}
+
+const FRAGMENT_KEY = 'queue';
+const MAX_ITEMS = 5000;
+const IMAGE_FORMATS: ImageFormat[] = ['png', 'jpeg', 'webp'];
+
+export const presetFromQueue = (
+  items: MediaItem[],
+  settings: Pick<Settings, 'imageOutput' | 'stripMetadata'>
+): QueuePreset => ({
+  version: 1,
+  items: items.map(item => ({
+    url: item.url,
+    filename: item.filenameEdited ? item.filename : undefined,
+    expectedChecksum: item.expectedChecksum,
+    imageOutput: item.imageOutput,
+  })),
+  imageOutput: settings.imageOutput,
+  stripMetadata: settings.stripMetadata,
+});
+
+export const presetToJson = (preset: QueuePreset): string => JSON.stringify(preset, null, 2);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (record: Record<string, unknown>, key: string, where: string): string | undefined => {
+  const value = record[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') throw new Error(`${where}: "${key}" must be a string`);
+  return value;
+};
+
+const toImageOutput = (value: unknown, where: string): ImageOutput | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!isRecord(value)) throw new Error(`${where}: "imageOutput" must be an object`);
+  const { format, maxWidth, maxHeight, quality } = value;
+  if (format !== undefined && format !== null && !IMAGE_FORMATS.includes(format as ImageFormat)) {
+    throw new Error(`${where}: unknown image format "${String(format)}"`);
+  }
+  const size = (n: unknown) => Number.isInteger(n) && (n as number) >= 0 && (n as number) <= 100000;
+  if (!size(maxWidth) || !size(maxHeight)) throw new Error(`${where}: image size limits must be whole numbers`);
+  if (!Number.isInteger(quality) || (quality as number) < 1 || (quality as number) > 100) {
+    throw new Error(`${where}: image quality must be between 1 and 100`);
+  }
+  return {
+    format: (format ?? undefined) as ImageFormat | undefined,
+    maxWidth: maxWidth as number,
+    maxHeight: maxHeight as number,
+    quality: quality as number,
+  };
+};
+
+const toItem = (value: unknown, index: number): PresetItem => {
+  const where = `Item ${index + 1}`;
+  if (!isRecord(value)) throw new Error(`${where} isn't an object`);
+  if (typeof value.url !== 'string' || !isHttpUrl(value.url.trim())) {
+    throw new Error(`${where} needs an http or https URL`);
+  }
+  return {
+    url: value.url.trim(),
+    filename: optionalString(value, 'filename', where),
+    expectedChecksum: optionalString(value, 'expectedChecksum', where),
+    imageOutput: toImageOutput(value.imageOutput, where),
+  };
+};
+
+/** Checks an untrusted preset, throwing on anything that doesn't fit the schema. */
+export const parsePreset = (value: unknown): QueuePreset => {
+  if (!isRecord(value) || !Array.isArray(value.items)) throw new Error('Expected a queue preset with an "items" list');
+  if (value.version !== 1) throw new Error(`Unsupported preset version ${String(value.version)}`);
+  if (value.items.length === 0) throw new Error('The preset has no items');
+  if (value.items.length > MAX_ITEMS) throw new Error(`The preset has more than ${MAX_ITEMS} items`);
+  if (value.stripMetadata !== undefined && typeof value.stripMetadata !== 'boolean') {
+    throw new Error('"stripMetadata" must be true or false');
+  }
+  return {
+    version: 1,
+    items: value.items.map(toItem),
+    imageOutput: toImageOutput(value.imageOutput, 'Preset'),
+    stripMetadata: value.stripMetadata,
+  };
+};
+
+/** True when a file looks like a preset rather than a list of URLs. */
+export const isPresetFile = (file: File) =>
+  file.type === 'application/json' || file.name.toLowerCase().endsWith('.json');
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+/** A link to this page that carries `preset` in its fragment, so it never reaches a server. */
+export const presetLink = async (preset: QueuePreset, base: string): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(preset));
+  const url = new URL(base);
+  url.hash = `${FRAGMENT_KEY}=${toBase64Url(await pipe(json, new CompressionStream('deflate-raw')))}`;
+  return url.toString();
+};
+
+/**
+ * Reads a preset from a location hash. Resolves null when the hash doesn't
+ * carry one and throws when it carries a broken or invalid one.
+ */
+export const presetFromHash = async (hash: string): Promise<QueuePreset | null> => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(FRAGMENT_KEY);
+  if (!encoded) return null;
+  let parsed: unknown;
+  try {
+    const json = await pipe(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    parsed = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('The link is incomplete or damaged');
+  }
+  return parsePreset(parsed);
+};
+
+/** `hash` without the preset, for tidying the address bar after reading it. */
+export const withoutPreset = (hash: string): string => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  params.delete(FRAGMENT_KEY);
+  const rest = params.toString();
+  return rest ? `#${rest}` : '';
+};
@@ -0,0 +1,166 @@
+import { parseContentRange } from './download';
+import { bodyError, httpError, request } from './errors';
+import { readExif, type ExifData } from './exif';
+import { sniffBytes } from './media';
+
+export interface MediaProbe {
+  mime?: string;
+  /** Size of the whole file, when the server says. */
+  size?: number;
+  container?: string;
+  /** Friendly codec names, e.g. `H.264`; empty when they couldn't be found. */
+  codecs: string[];
+  exif: ExifData | null;
+}
+
+// EXIF sits at the very start of a JPEG, and a web-optimised MP4 keeps its
+// moov box (which lists the codecs) in front of the media data.
+const PROBE_LENGTH = 256 * 1024;
+
+const CONTAINERS: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/gif': 'GIF',
+  'image/webp': 'WebP',
+  'image/avif': 'AVIF',
+  'image/heic': 'HEIF',
+  'image/bmp': 'BMP',
+  'image/tiff': 'TIFF',
+  'image/svg+xml': 'SVG',
+  'video/mp4': 'MPEG-4',
+  'audio/mp4': 'MPEG-4 audio',
+  'video/quicktime': 'QuickTime',
+  'video/webm': 'WebM',
+  'video/x-matroska': 'Matroska',
+  'video/x-msvideo': 'AVI',
+  'video/x-flv': 'Flash video',
+  'audio/mpeg': 'MP3',
+  'audio/ogg': 'Ogg',
+  'audio/flac': 'FLAC',
+  'audio/wav': 'WAVE',
+};
+
+// ISO BMFF sample entry types, as they appear in the stsd box.
+const MP4_CODECS: Record<string, string> = {
+  avc1: 'H.264',
+  avc3: 'H.264',
+  hvc1: 'HEVC',
+  hev1: 'HEVC',
+  av01: 'AV1',
+  vp09: 'VP9',
+  mp4a: 'AAC',
+  Opus: 'Opus',
+  'ac-3': 'AC-3',
+  'ec-3': 'E-AC-3',
+  fLaC: 'FLAC',
+};
+
+const MATROSKA_CODECS: Record<string, string> = {
+  'V_MPEG4/ISO/AVC': 'H.264',
+  'V_MPEGH/ISO/HEVC': 'HEVC',
+  V_VP8: 'VP8',
+  V_VP9: 'VP9',
+  V_AV1: 'AV1',
+  A_OPUS: 'Opus',
+  A_VORBIS: 'Vorbis',
+  A_AAC: 'AAC',
+  A_FLAC: 'FLAC',
+};
+
+const OGG_CODECS: Record<string, string> = {
+  OpusHead: 'Opus',
+  vorbis: 'Vorbis',
+  FLAC: 'FLAC',
+  theora: 'Theora',
+};
+
+const indexOfAscii = (bytes: Uint8Array, text: string, from = 0) => {
+  search: for (let i = from; i <= bytes.length - text.length; i++) {
+    for (let j = 0; j < text.length; j++) {
+      if (bytes[i + j] !== text.charCodeAt(j)) continue search;
+    }
+    return i;
+  }
+  return -1;
+};
+
+const detectCodecs = (bytes: Uint8Array, mime: string): string[] => {
+  let table: Record<string, string>;
+  let from = 0;
+  if (mime === 'video/mp4' || mime === 'audio/mp4' || mime === 'video/quicktime') {
+    // Only look inside the sample descriptions; a fourcc in media data is noise.
+    from = indexOfAscii(bytes, 'stsd');
+    if (from < 0) return [];
+    table = MP4_CODECS;
+  } else if (mime === 'video/webm' || mime === 'video/x-matroska') {
+    table = MATROSKA_CODECS;
+  } else if (mime === 'audio/ogg') {
+    table = OGG_CODECS;
+  } else {
+    return [];
+  }
+
+  const found = new Set<string>();
+  for (const [tag, name] of Object.entries(table)) {
+    if (indexOfAscii(bytes, tag, from) >= 0) found.add(name);
+  }
+  return [...found];
+};
+
+const readLeading = async (response: Response, length: number, signal?: AbortSignal) => {
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  const reader = response.body?.getReader();
+  if (!reader) return new Uint8Array(0);
+  try {
+    while (received < length) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.length;
+    }
+  } catch (error) {
+    throw bodyError(error, response, signal);
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes.subarray(0, length);
+};
+
+/**
+ * Fetches the start of `url` and works out what it is: type, container,
+ * codecs where they're near the front, the full size and any EXIF.
+ */
+export const probeMedia = async (
+  url: string,
+  { signal, fetch: fetchImpl = fetch }: { signal?: AbortSignal; fetch?: typeof fetch } = {}
+): Promise<MediaProbe> => {
+  const response = await request(fetchImpl, url, {
+    headers: { Range: `bytes=0-${PROBE_LENGTH - 1}` },
+    signal,
+  });
+  if (!response.ok) throw httpError(response);
+  const bytes = await readLeading(response, PROBE_LENGTH, signal);
+
+  const encoding = response.headers.get('content-encoding');
+  const length = Number(response.headers.get('content-length'));
+  const size = parseContentRange(response.headers.get('content-range'))?.total
+    || (response.status === 200 && length > 0 && (!encoding || encoding === 'identity') ? length : undefined);
+
+  const declared = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  const mime = sniffBytes(bytes)?.mime ?? (declared || undefined);
+  return {
+    mime,
+    size,
+    container: mime ? CONTAINERS[mime] : undefined,
+    codecs: mime ? detectCodecs(bytes, mime) : [],
+    exif: readExif(bytes),
+  };
+};
@@ -0,0 +1,60 @@
+import type { MediaItem } from '../types';
+
+// Speed is averaged over this much recent history, so it follows changes in
+// throughput without jumping around on every chunk.
+const WINDOW_MS = 5000;
+
+/** Tracks bytes over time for one transfer and derives speed and ETA. */
+export class TransferMeter {
+  private samples: { time: number; bytes: number }[] = [];
+
+  constructor(private now: () => number = () => performance.now()) {}
+
+  sample(bytes: number) {
+    const time = this.now();
+    this.samples.push({ time, bytes });
+    while (this.samples.length > 2 && time - this.samples[0].time > WINDOW_MS) this.samples.shift();
+  }
+
+  /** Bytes per second, or undefined until there's enough to go on. */
+  get speed(): number | undefined {
+    if (this.samples.length < 2) return undefined;
+    const first = this.samples[0];
+    const last = this.samples[this.samples.length - 1];
+    const elapsed = (last.time - first.time) / 1000;
+    return elapsed > 0.25 ? (last.bytes - first.bytes) / elapsed : undefined;
+  }
+
+  /** Seconds left, if the total and a speed are known. */
+  eta(received: number, total: number): number | undefined {
+    const speed = this.speed;
+    return total > 0 && speed ? Math.max(0, (total - received) / speed) : undefined;
+  }
+}
+
+export interface QueueTotals {
+  active: number;
+  received: number;
+  /** Sum of known sizes; `complete` says whether every active item has one. */
+  total: number;
+  complete: boolean;
+  speed: number;
+  eta?: number;
+}
+
+/** Aggregates the in-flight items for the queue header. */
+export const queueTotals = (items: MediaItem[]): QueueTotals => {
+  const active = items.filter(item => item.status === 'downloading');
+  const received = active.reduce((sum, item) => sum + (item.received ?? 0), 0);
+  const total = active.reduce((sum, item) => sum + (item.size ?? 0), 0);
+  const complete = active.every(item => item.size !== undefined);
+  const speed = active.reduce((sum, item) => sum + (item.speed ?? 0), 0);
+  return {
+    active: active.length,
+    received,
+    total,
+    complete,
+    speed,
+    eta: complete && total > 0 && speed > 0 ? Math.max(0, (total - received) / speed) : undefined,
+  };
+};
@@ -0,0 +1,88 @@
+import { DownloadError } from './errors';
+
+export type ProxyMode = 'off' | 'fallback' | 'always';
+
+// Both must match server/proxy.ts.
+const FINAL_URL_HEADER = 'x-mediadrop-final-url';
+const PROXY_ERROR_HEADER = 'x-mediadrop-proxy-error';
+
+// Hosts that only worked through the proxy; later requests skip the doomed
+// direct attempt.
+const proxiedHosts = new Set<string>();
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+};
+
+export const proxyUrlFor = (proxyUrl: string, url: string) =>
+  `${proxyUrl}${proxyUrl.includes('?') ? '&' : '?'}url=${encodeURIComponent(url)}`;
+
+const viaProxy = async (url: string, init: RequestInit | undefined, proxyUrl: string, fetchImpl: typeof fetch) => {
+  const response = await fetchImpl(proxyUrlFor(proxyUrl, url), init);
+
+  if (response.headers.has(PROXY_ERROR_HEADER)) {
+    const message = (await response.text()) || `status ${response.status}`;
+    throw new DownloadError('proxy', `The proxy could not fetch this: ${message}`, response.status, response.status >= 500);
+  }
+  // Anything else answering at the proxy URL (a static host's 404 page, say)
+  // means there's no proxy there.
+  const finalUrl = response.headers.get(FINAL_URL_HEADER);
+  if (finalUrl === null) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  // Callers resolve relative URLs against response.url, which has to be the
+  // upstream's rather than the proxy's.
+  const proxied = new Response(response.body, response);
+  Object.defineProperty(proxied, 'url', { value: finalUrl || url });
+  return proxied;
+};
+
+/**
+ * Wraps `fetch` so requests go through the companion proxy: always, or only
+ * once a direct request has failed the way a CORS block does.
+ */
+export const createProxyFetch = (mode: ProxyMode, proxyUrl: string, fetchImpl: typeof fetch = fetch): typeof fetch => {
+  if (mode === 'off' || !proxyUrl.trim()) return fetchImpl;
+
+  return async (input, init) => {
+    const url = input instanceof Request ? input.url : String(input);
+    // An opaque request is how we probe for CORS; it has to go direct.
+    if (init?.mode === 'no-cors') return fetchImpl(input, init);
+
+    if (mode === 'always' || proxiedHosts.has(hostOf(url))) {
+      const response = await viaProxy(url, init, proxyUrl, fetchImpl);
+      if (!response) throw new DownloadError('proxy', `No proxy is answering at ${proxyUrl}`);
+      return response;
+    }
+
+    try {
+      return await fetchImpl(input, init);
+    } catch (error) {
+      if (!(error instanceof TypeError) || init?.signal?.aborted) throw error;
+      const response = await viaProxy(url, init, proxyUrl, fetchImpl).catch(proxyError => {
+        throw proxyError instanceof DownloadError ? proxyError : error;
+      });
+      if (!response) throw error;
+      proxiedHosts.add(hostOf(url));
+      return response;
+    }
+  };
+};
+
+/** Asks the proxy's health endpoint whether it is up. */
+export const checkProxy = async (proxyUrl: string, fetchImpl: typeof fetch = fetch): Promise<boolean> => {
+  try {
+    const base = new URL(proxyUrl, window.location.href);
+    base.pathname = `${base.pathname.replace(/\/$/, '')}/health`;
+    const response = await fetchImpl(base.toString());
+    return response.ok && response.headers.get('content-type')?.includes('application/json') === true;
+  } catch {
+    return false;
+  }
+};
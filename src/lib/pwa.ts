@@ -0,0 +1,56 @@
+const LAUNCH_PARAMS = ['url', 'text', 'title'];
+
+/**
+ * Registers the service worker that lets the installed app load offline.
+ * Production builds only, so it never serves stale modules to the dev server.
+ */
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error('Failed to register service worker:', err));
+  });
+};
+
+/**
+ * What the page was opened with: a `?url=` launch link, or the title, text
+ * and URL the share sheet passes to a share target. Shared links often only
+ * appear in the text, so all three are returned for URL extraction.
+ */
+export const launchContent = (search: string): string | null => {
+  const params = new URLSearchParams(search);
+  const parts = LAUNCH_PARAMS.map(name => params.get(name)).filter(Boolean);
+  return parts.length > 0 ? parts.join('\n') : null;
+};
+
+/** `search` without the launch parameters, for tidying the address bar. */
+export const withoutLaunchParams = (search: string): string => {
+  const params = new URLSearchParams(search);
+  LAUNCH_PARAMS.forEach(name => params.delete(name));
+  const rest = params.toString();
+  return rest ? `?${rest}` : '';
+};
+
+const canNotify = () => typeof Notification !== 'undefined';
+
+/** Asks once; call from a click, since browsers ignore requests made without one. */
+export const requestNotificationPermission = () => {
+  if (canNotify() && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+};
+
+/**
+ * Shows a system notification if the user allowed them. Goes through the
+ * service worker where there is one, since some mobile browsers only allow that.
+ */
+export const notify = async (title: string, body: string) => {
+  if (!canNotify() || Notification.permission !== 'granted') return;
+  const options = { body, icon: '/icon-192.png', tag: 'mediadrop-queue' };
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (registration) await registration.showNotification(title, options);
+    else new Notification(title, options);
+  } catch (err) {
+    console.error('Failed to show notification:', err);
+  }
+};
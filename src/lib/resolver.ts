@@ -0,0 +1,56 @@
+import { dedupeCandidates, extractFromHtml, type ImportCandidate } from './importer';
+import { getMediaType } from './media';
+import { httpError, request } from './errors';
+import {
+  parseVariants,
+  streamFormatFromMime,
+  streamFormatFromUrl,
+  type StreamFormat,
+  type StreamVariant,
+} from './stream';
+
+export type Resolution =
+  | { kind: 'file' }
+  | { kind: 'stream'; format: StreamFormat; manifestUrl: string; variants: StreamVariant[] }
+  | { kind: 'page'; candidates: ImportCandidate[] };
+
+interface ResolveOptions {
+  signal?: AbortSignal;
+  fetch?: typeof fetch;
+}
+
+const HTML_MIMES = ['text/html', 'application/xhtml+xml'];
+
+/**
+ * Whether a URL is worth probing before it goes into the queue: manifests
+ * always are, and so is anything whose extension doesn't say what it is.
+ */
+export const needsResolving = (url: string): boolean =>
+  streamFormatFromUrl(url) !== null || getMediaType(url) === 'other';
+
+/**
+ * Fetches `url` far enough to tell whether it is a plain file, an HLS/DASH
+ * manifest (expanded into its renditions) or an HTML page (expanded into the
+ * media it references).
+ */
+export const resolveMedia = async (url: string, { signal, fetch: fetchImpl = fetch }: ResolveOptions = {}): Promise<Resolution> => {
+  const response = await request(fetchImpl, url, { signal });
+  if (!response.ok) throw httpError(response);
+
+  const mime = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  const finalUrl = response.url || url;
+  const format = streamFormatFromMime(mime) ?? streamFormatFromUrl(url);
+
+  if (format) {
+    const text = await response.text();
+    return { kind: 'stream', format, manifestUrl: finalUrl, variants: parseVariants(format, text, finalUrl) };
+  }
+
+  if (HTML_MIMES.includes(mime)) {
+    const html = await response.text();
+    return { kind: 'page', candidates: dedupeCandidates(extractFromHtml(html, finalUrl)) };
+  }
+
+  await response.body?.cancel();
+  return { kind: 'file' };
+};
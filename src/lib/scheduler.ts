@@ -0,0 +1,283 @@
+import type { MediaStatus } from '../types';
+
+export type RunDownload = (id: string, signal: AbortSignal) => Promise<void>;
+
+export interface StatusInfo {
+  attempts?: number;
+  nextRetryAt?: number;
+  error?: unknown;
+}
+
+/** How an item's host wants to be treated; see HostPolicy. */
+export interface HostLimits {
+  host: string;
+  /** 0 for no limit beyond `concurrency`. */
+  maxConnections: number;
+  minDelay: number;
+  /** 0 never pauses the host. */
+  pauseAfterFailures: number;
+}
+
+export interface SchedulerOptions {
+  concurrency: number;
+  maxRetries: number;
+  /** Delay before the first retry; each further retry doubles it. */
+  retryBaseDelay: number;
+  run: RunDownload;
+  onStatus: (id: string, status: MediaStatus, info?: StatusInfo) => void;
+  /** Looks up the limits for an item's host; items without one share no limits. */
+  limitsFor?: (id: string) => HostLimits | undefined;
+  /** Called when a host is paused after failing too often, and when it's resumed. */
+  onHostPaused?: (host: string, paused: boolean) => void;
+}
+
+type StopReason = 'pause' | 'cancel';
+
+interface ActiveDownload {
+  controller: AbortController;
+  host: string;
+  stopReason?: StopReason;
+}
+
+interface HostState {
+  active: number;
+  lastStart: number;
+  /** Nothing starts before this; set from Retry-After. */
+  blockedUntil: number;
+  /** Retryable failures in a row. */
+  failures: number;
+  paused: boolean;
+}
+
+const MAX_RETRY_DELAY = 60_000;
+const NO_LIMITS: HostLimits = { host: '', maxConnections: 0, minDelay: 0, pauseAfterFailures: 0 };
+
+// Errors can opt out of retries by carrying `retryable: false`.
+const isRetryable = (error: unknown) =>
+  (error as { retryable?: unknown } | null)?.retryable !== false;
+
+// ...and ask for a minimum wait by carrying `retryAfter` in milliseconds.
+const retryAfterOf = (error: unknown) => {
+  const retryAfter = (error as { retryAfter?: unknown } | null)?.retryAfter;
+  return typeof retryAfter === 'number' ? retryAfter : 0;
+};
+
+/**
+ * Runs downloads with a bounded number in flight. Each running download owns
+ * an AbortController so it can be paused or cancelled; failures are retried
+ * with exponential backoff until `maxRetries` is exhausted. Per-host limits
+ * cap connections and space out starts, Retry-After holds back a whole host,
+ * and a host that keeps failing is paused until something is resumed there.
+ */
+export class DownloadScheduler {
+  private options: SchedulerOptions;
+  private waiting: string[] = [];
+  private active = new Map<string, ActiveDownload>();
+  private attempts = new Map<string, number>();
+  private retryTimers = new Map<string, number>();
+  private hosts = new Map<string, HostState>();
+  private pumpTimer: number | undefined;
+
+  constructor(options: SchedulerOptions) {
+    this.options = options;
+  }
+
+  configure(options: Partial<SchedulerOptions>) {
+    this.options = { ...this.options, ...options };
+    this.pump();
+  }
+
+  isActive(id: string) {
+    return this.active.has(id);
+  }
+
+  /** Queues `id`, resuming its host if it was paused. */
+  enqueue(id: string) {
+    this.resumeHost(this.limits(id).host);
+    this.queue(id);
+  }
+
+  /** Lets a paused host's downloads start again. */
+  resumeHost(host: string) {
+    const state = this.hosts.get(host);
+    if (!state?.paused) return;
+    state.paused = false;
+    state.failures = 0;
+    this.options.onHostPaused?.(host, false);
+    this.pump();
+  }
+
+  private queue(id: string) {
+    if (this.active.has(id) || this.waiting.includes(id)) return;
+    this.clearRetryTimer(id);
+    this.waiting.push(id);
+    this.options.onStatus(id, 'queued', { attempts: this.attempts.get(id) ?? 0 });
+    this.pump();
+  }
+
+  pause(id: string) {
+    this.stop(id, 'pause');
+  }
+
+  resume(id: string) {
+    this.enqueue(id);
+  }
+
+  cancel(id: string) {
+    this.stop(id, 'cancel');
+    this.attempts.delete(id);
+  }
+
+  /** Starts over with a fresh retry budget. */
+  retry(id: string) {
+    this.attempts.delete(id);
+    this.enqueue(id);
+  }
+
+  /** Forgets an item entirely, aborting it if it is running. */
+  remove(id: string) {
+    this.waiting = this.waiting.filter(waitingId => waitingId !== id);
+    this.clearRetryTimer(id);
+    this.attempts.delete(id);
+    const running = this.active.get(id);
+    if (running) {
+      running.stopReason = 'cancel';
+      running.controller.abort();
+    }
+  }
+
+  private stop(id: string, reason: StopReason) {
+    const status: MediaStatus = reason === 'pause' ? 'paused' : 'cancelled';
+    const running = this.active.get(id);
+    if (running) {
+      running.stopReason = reason;
+      running.controller.abort();
+      return;
+    }
+
+    const wasWaiting = this.waiting.includes(id) || this.retryTimers.has(id);
+    this.waiting = this.waiting.filter(waitingId => waitingId !== id);
+    this.clearRetryTimer(id);
+    if (wasWaiting) this.options.onStatus(id, status);
+  }
+
+  private clearRetryTimer(id: string) {
+    const timer = this.retryTimers.get(id);
+    if (timer !== undefined) {
+      window.clearTimeout(timer);
+      this.retryTimers.delete(id);
+    }
+  }
+
+  private limits(id: string) {
+    return this.options.limitsFor?.(id) ?? NO_LIMITS;
+  }
+
+  private hostState(host: string) {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, lastStart: 0, blockedUntil: 0, failures: 0, paused: false };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /** When `id` may start; Infinity while its host is paused or at its connection limit. */
+  private readyAt(id: string) {
+    const limits = this.limits(id);
+    const state = this.hostState(limits.host);
+    if (state.paused || (limits.maxConnections > 0 && state.active >= limits.maxConnections)) return Infinity;
+    return Math.max(state.lastStart + limits.minDelay, state.blockedUntil);
+  }
+
+  // Starts whatever its host allows, in queue order, and wakes up again when
+  // the earliest held-back item may go.
+  private pump() {
+    window.clearTimeout(this.pumpTimer);
+    this.pumpTimer = undefined;
+    const now = Date.now();
+    let wakeAt = Infinity;
+    for (let i = 0; i < this.waiting.length && this.active.size < this.options.concurrency;) {
+      const readyAt = this.readyAt(this.waiting[i]);
+      if (readyAt <= now) {
+        this.start(this.waiting.splice(i, 1)[0]);
+      } else {
+        wakeAt = Math.min(wakeAt, readyAt);
+        i++;
+      }
+    }
+    if (wakeAt < Infinity) this.pumpTimer = window.setTimeout(() => this.pump(), wakeAt - now);
+  }
+
+  private start(id: string) {
+    const { host } = this.limits(id);
+    const state = this.hostState(host);
+    state.active++;
+    state.lastStart = Date.now();
+    const entry: ActiveDownload = { controller: new AbortController(), host };
+    this.active.set(id, entry);
+    this.options.onStatus(id, 'downloading', { attempts: this.attempts.get(id) ?? 0 });
+
+    this.options.run(id, entry.controller.signal)
+      .then(() => {
+        this.attempts.delete(id);
+        this.hostState(host).failures = 0;
+        this.options.onStatus(id, 'completed');
+      })
+      .catch(error => this.handleFailure(id, entry, error))
+      .finally(() => {
+        this.active.delete(id);
+        this.hostState(host).active--;
+        this.pump();
+      });
+  }
+
+  private handleFailure(id: string, entry: ActiveDownload, error: unknown) {
+    if (entry.stopReason === 'pause') {
+      this.options.onStatus(id, 'paused');
+      return;
+    }
+    if (entry.stopReason === 'cancel') {
+      this.options.onStatus(id, 'cancelled');
+      return;
+    }
+
+    const attempts = (this.attempts.get(id) ?? 0) + 1;
+    this.attempts.set(id, attempts);
+
+    const state = this.hostState(entry.host);
+    const retryAfter = retryAfterOf(error);
+    if (retryAfter > 0) state.blockedUntil = Math.max(state.blockedUntil, Date.now() + retryAfter);
+    // Only trouble that might clear up counts against the host; a missing
+    // file is that file's problem.
+    if (isRetryable(error)) state.failures++;
+    const { pauseAfterFailures } = this.limits(id);
+    if (!state.paused && pauseAfterFailures > 0 && state.failures >= pauseAfterFailures) {
+      this.pauseHost(entry.host);
+    }
+
+    if (attempts > this.options.maxRetries || !isRetryable(error) || state.paused) {
+      this.options.onStatus(id, 'error', { attempts, error });
+      return;
+    }
+
+    const delay = Math.max(
+      Math.min(this.options.retryBaseDelay * 2 ** (attempts - 1) + Math.random() * 250, MAX_RETRY_DELAY),
+      retryAfter
+    );
+    const nextRetryAt = Date.now() + delay;
+    this.options.onStatus(id, 'error', { attempts, nextRetryAt, error });
+    this.retryTimers.set(id, window.setTimeout(() => {
+      this.retryTimers.delete(id);
+      this.queue(id);
+    }, delay));
+  }
+
+  // Holds back everything waiting on `host`; running downloads finish or fail on their own.
+  private pauseHost(host: string) {
+    this.hostState(host).paused = true;
+    const held = [...this.waiting, ...this.retryTimers.keys()].filter(id => this.limits(id).host === host);
+    for (const id of held) this.stop(id, 'pause');
+    this.options.onHostPaused?.(host, true);
+  }
+}
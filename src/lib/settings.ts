@@ -0,0 +1,38 @@
+import type { Settings } from '../types';
+import { DEFAULT_TEMPLATE } from './filename';
+import { ORIGINAL_OUTPUT } from './imageOutput';
+import { DEFAULT_HOST_POLICIES } from './hostPolicy';
+
+const STORAGE_KEY = 'mediadrop:settings';
+
+export const DEFAULT_SETTINGS: Settings = {
+  concurrency: 3,
+  maxRetries: 3,
+  zipManifest: true,
+  filenameTemplate: DEFAULT_TEMPLATE,
+  historyLimit: 50,
+  duplicates: 'flag',
+  proxyMode: 'fallback',
+  proxyUrl: '/proxy',
+  stripMetadata: false,
+  imageOutput: ORIGINAL_OUTPUT,
+  hostPolicies: DEFAULT_HOST_POLICIES,
+};
+
+export const loadSettings = (): Settings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(raw) };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Failed to save settings:', err);
+  }
+};
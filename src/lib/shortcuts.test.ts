@@ -0,0 +1,23 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { isTextEntry } from './shortcuts';
+
+const input = (type: string) => Object.assign(document.createElement('input'), { type });
+
+describe('isTextEntry', () => {
+  it('keeps the keyboard for fields that are typed into', () => {
+    expect(isTextEntry(input('text'))).toBe(true);
+    expect(isTextEntry(input('url'))).toBe(true);
+    expect(isTextEntry(input('number'))).toBe(true);
+    expect(isTextEntry(document.createElement('textarea'))).toBe(true);
+    expect(isTextEntry(document.createElement('select'))).toBe(true);
+  });
+
+  it('leaves shortcuts working on checkboxes and other controls', () => {
+    expect(isTextEntry(input('checkbox'))).toBe(false);
+    expect(isTextEntry(input('radio'))).toBe(false);
+    expect(isTextEntry(input('range'))).toBe(false);
+    expect(isTextEntry(document.createElement('button'))).toBe(false);
+    expect(isTextEntry(null)).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+export type ShortcutAction =
+  | 'download'
+  | 'retry'
+  | 'remove'
+  | 'copy'
+  | 'preview'
+  | 'toggleSelect'
+  | 'selectAll'
+  | 'clearSelection'
+  | 'focusPrevious'
+  | 'focusNext'
+  | 'focusUp'
+  | 'focusDown'
+  | 'help';
+
+export interface Shortcut {
+  keys: string[];
+  description: string;
+}
+
+const MOD = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.userAgent) ? '⌘' : 'Ctrl';
+
+/** What the cheat sheet lists. */
+export const SHORTCUTS: Shortcut[] = [
+  { keys: [MOD, 'V'], description: 'Import URLs from the clipboard' },
+  { keys: ['Enter'], description: 'Download the selected items' },
+  { keys: ['R'], description: 'Retry the selected items' },
+  { keys: ['Delete'], description: 'Remove the selected items' },
+  { keys: ['C'], description: 'Copy the selected items’ URLs' },
+  { keys: ['P'], description: 'Preview the focused item' },
+  { keys: ['←', '→', '↑', '↓'], description: 'Move between items' },
+  { keys: ['Space'], description: 'Select or deselect the focused item' },
+  { keys: [MOD, 'A'], description: 'Select everything in the queue' },
+  { keys: ['Esc'], description: 'Clear the selection' },
+  { keys: ['?'], description: 'Show these shortcuts' },
+];
+
+const KEYS: Record<string, ShortcutAction> = {
+  Enter: 'download',
+  r: 'retry',
+  Delete: 'remove',
+  Backspace: 'remove',
+  c: 'copy',
+  p: 'preview',
+  ' ': 'toggleSelect',
+  Escape: 'clearSelection',
+  ArrowLeft: 'focusPrevious',
+  ArrowRight: 'focusNext',
+  ArrowUp: 'focusUp',
+  ArrowDown: 'focusDown',
+  '?': 'help',
+};
+
+/** Which action a key press asks for, if any. */
+export const matchShortcut = (event: KeyboardEvent): ShortcutAction | null => {
+  if (event.ctrlKey || event.metaKey) {
+    return event.key.toLowerCase() === 'a' && !event.altKey && !event.shiftKey ? 'selectAll' : null;
+  }
+  if (event.altKey) return null;
+  return KEYS[event.key.length === 1 ? event.key.toLowerCase() : event.key] ?? null;
+};
+
+// Inputs that are pressed or dragged rather than typed into, like the cards' checkboxes.
+const NON_TEXT_INPUTS = ['checkbox', 'radio', 'button', 'submit', 'reset', 'image', 'file', 'color', 'range'];
+
+/** True for elements that need the keyboard for themselves. */
+export const isTextEntry = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) return !NON_TEXT_INPUTS.includes(target.type);
+  return target.isContentEditable || ['TEXTAREA', 'SELECT'].includes(target.tagName);
+};
@@ -0,0 +1,99 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createPartial } from './download';
+import { fetchStream, type StreamSelection } from './stream';
+import { startFileServer, type FileServer } from './testServer';
+import segments from './__fixtures__/segments.m3u8?raw';
+import byterange from './__fixtures__/byterange.m3u8?raw';
+
+let server: FileServer;
+
+beforeAll(async () => {
+  server = await startFileServer();
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => {
+  server.reset();
+  server.files.set('/show/index.m3u8', { body: segments, contentType: 'application/vnd.apple.mpegurl' });
+  server.files.set('/show/seg0.ts', { body: 'aaaa' });
+  server.files.set('/show/seg1.ts', { body: 'bbbb' });
+  server.files.set('/show/seg2.ts', { body: 'cc' });
+});
+
+const selection = (path: string): StreamSelection => ({
+  format: 'hls',
+  manifestUrl: server.url(path),
+  variantId: 'v0',
+  label: 'Default',
+});
+
+const paths = () => server.requests.map(request => request.path);
+
+const text = async (blob: Blob | null) => blob!.text();
+
+describe('fetchStream', () => {
+  it('downloads every segment in order', async () => {
+    const partial = createPartial(server.url('/show/index.m3u8'));
+
+    expect(await text(await fetchStream(selection('/show/index.m3u8'), { partial }))).toBe('aaaabbbbcc');
+    expect(paths()).toEqual(['/show/index.m3u8', '/show/seg0.ts', '/show/seg1.ts', '/show/seg2.ts']);
+    expect(partial).toMatchObject({ segmentIndex: 3, received: 10, total: 10 });
+  });
+
+  it('resumes at the first segment it had not finished', async () => {
+    const partial = { ...createPartial(server.url('/show/index.m3u8')), parts: ['aaaa'], received: 4, segmentIndex: 1 };
+
+    expect(await text(await fetchStream(selection('/show/index.m3u8'), { partial }))).toBe('aaaabbbbcc');
+    expect(paths()).toEqual(['/show/index.m3u8', '/show/seg1.ts', '/show/seg2.ts']);
+  });
+
+  it('keeps the segments that finished when one fails', async () => {
+    server.files.delete('/show/seg2.ts');
+    const partial = createPartial(server.url('/show/index.m3u8'));
+
+    await expect(fetchStream(selection('/show/index.m3u8'), { partial })).rejects.toMatchObject({ kind: 'http', status: 404 });
+    expect(partial).toMatchObject({ segmentIndex: 2, received: 8 });
+  });
+
+  it('starts over when the partial is not from a stream download', async () => {
+    const partial = { ...createPartial(server.url('/show/index.m3u8')), parts: ['stale'], received: 5 };
+
+    expect(await text(await fetchStream(selection('/show/index.m3u8'), { partial }))).toBe('aaaabbbbcc');
+    expect(server.requests).toHaveLength(4);
+  });
+
+  describe('byte-range segments', () => {
+    const body = 'i'.repeat(720) + 'a'.repeat(1000) + 'b'.repeat(1200) + 'c'.repeat(500);
+
+    beforeEach(() => {
+      server.files.set('/show/main.m3u8', { body: byterange });
+      server.files.set('/show/main.mp4', { body });
+    });
+
+    it('asks for each range', async () => {
+      const extensions: string[] = [];
+      expect(await text(await fetchStream(selection('/show/main.m3u8'), { onExtension: ext => extensions.push(ext) }))).toBe(body);
+      expect(extensions).toEqual(['mp4']);
+      expect(server.requests.slice(1).map(request => request.headers.range)).toEqual([
+        'bytes=0-719',
+        'bytes=720-1719',
+        'bytes=1720-2919',
+        'bytes=2920-3419',
+      ]);
+    });
+
+    it('cuts each range out of the whole file when the server ignores Range', async () => {
+      server.ignoreRanges = true;
+
+      expect(await text(await fetchStream(selection('/show/main.m3u8')))).toBe(body);
+    });
+
+    it('fails rather than splicing in the wrong bytes', async () => {
+      server.ignoreRanges = true;
+      server.files.set('/show/main.mp4', { body: body.slice(0, 3000) });
+
+      await expect(fetchStream(selection('/show/main.m3u8'))).rejects.toThrow('shorter than its byte range');
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import type { ChunkSink, PartialDownload } from './download';
+import { createPartial, parseContentRange } from './download';
+import { parseDash } from './dash';
+import { isMasterPlaylist, parseHlsMediaPlaylist, parseHlsVariants, playlistExtension } from './hls';
+import { getFileExtension } from './media';
+import { DownloadError, bodyError, httpError, request } from './errors';
+
+export type StreamFormat = 'hls' | 'dash';
+
+export interface Segment {
+  url: string;
+  /** Inclusive byte range within `url`, for byte-range addressed segments. */
+  range?: { start: number; end: number };
+}
+
+export interface StreamVariant {
+  id: string;
+  label: string;
+  kind: 'video' | 'audio';
+  bandwidth?: number;
+  width?: number;
+  height?: number;
+  codecs?: string;
+  extension: string;
+  /** HLS only: the media playlist for this rendition. */
+  playlistUrl?: string;
+}
+
+/** What a queue item stores to download one rendition of a manifest. */
+export interface StreamSelection {
+  format: StreamFormat;
+  manifestUrl: string;
+  variantId: string;
+  label: string;
+}
+
+interface StreamOptions {
+  signal?: AbortSignal;
+  fetch?: typeof fetch;
+  /** Called with every response, before its body is read; for diagnostics. */
+  onResponse?: (response: Response) => void;
+}
+
+const MANIFEST_MIMES: Record<string, StreamFormat> = {
+  'application/vnd.apple.mpegurl': 'hls',
+  'application/x-mpegurl': 'hls',
+  'audio/mpegurl': 'hls',
+  'audio/x-mpegurl': 'hls',
+  'application/dash+xml': 'dash',
+};
+
+export const streamFormatFromUrl = (url: string): StreamFormat | null => {
+  const ext = getFileExtension(url);
+  if (ext === 'm3u8') return 'hls';
+  if (ext === 'mpd') return 'dash';
+  return null;
+};
+
+export const streamFormatFromMime = (mime: string): StreamFormat | null =>
+  MANIFEST_MIMES[mime.split(';')[0].trim().toLowerCase()] ?? null;
+
+const readBody = <T>(response: Response, read: Promise<T>, signal?: AbortSignal) =>
+  read.catch(error => {
+    throw bodyError(error, response, signal);
+  });
+
+const fetchText = async (url: string, { signal, onResponse, fetch: fetchImpl = fetch }: StreamOptions) => {
+  const response = await request(fetchImpl, url, { signal });
+  onResponse?.(response);
+  if (!response.ok) throw httpError(response, 'the manifest');
+  return { text: await readBody(response, response.text(), signal), url: response.url || url };
+};
+
+// A manifest we can't make sense of won't parse any better on a retry.
+const parseManifest = <T>(parse: () => T): T => {
+  try {
+    return parse();
+  } catch (error) {
+    throw new DownloadError('decode', error instanceof Error ? error.message : String(error));
+  }
+};
+
+export const parseVariants = (format: StreamFormat, text: string, manifestUrl: string): StreamVariant[] =>
+  format === 'hls'
+    ? parseHlsVariants(text, manifestUrl)
+    : parseDash(text, manifestUrl).map(({ id, label, kind, bandwidth, width, height, codecs, extension }) => (
+      { id, label, kind, bandwidth, width, height, codecs, extension }
+    ));
+
+export interface StreamPlan {
+  segments: Segment[];
+  /** What the joined segments make, e.g. "mp4" for an fMP4 HLS rendition. */
+  extension: string;
+}
+
+/** Works out the ordered list of segments for the selected rendition. */
+export const planStream = async (
+  selection: StreamSelection,
+  options: StreamOptions = {}
+): Promise<StreamPlan> => {
+  const manifest = await fetchText(selection.manifestUrl, options);
+
+  if (selection.format === 'dash') {
+    const representation = parseManifest(() => parseDash(manifest.text, manifest.url))
+      .find(r => r.id === selection.variantId);
+    if (!representation) throw new Error('The chosen quality is no longer in the manifest');
+    const { init, segments, extension } = representation;
+    return { segments: init ? [init, ...segments] : segments, extension };
+  }
+
+  let playlist = manifest;
+  if (isMasterPlaylist(manifest.text)) {
+    const variant = parseManifest(() => parseHlsVariants(manifest.text, manifest.url))
+      .find(v => v.id === selection.variantId);
+    if (!variant?.playlistUrl) throw new Error('The chosen quality is no longer in the playlist');
+    playlist = await fetchText(variant.playlistUrl, options);
+  }
+  const { init, segments } = parseManifest(() => parseHlsMediaPlaylist(playlist.text, playlist.url));
+  return { segments: init ? [init, ...segments] : segments, extension: playlistExtension(playlist.text, playlist.url) };
+};
+
+export interface FetchStreamOptions extends StreamOptions {
+  partial?: PartialDownload;
+  sink?: ChunkSink;
+  /** Byte counts; the total is extrapolated from the segments done so far. */
+  onProgress?: (received: number, total: number) => void;
+  /** Called once the rendition's playlist shows what its segments make. */
+  onExtension?: (extension: string) => void;
+}
+
+const fetchSegment = async (segment: Segment, { signal, onResponse, fetch: fetchImpl = fetch }: StreamOptions) => {
+  const { range } = segment;
+  const headers: Record<string, string> = {};
+  if (range) headers.Range = `bytes=${range.start}-${range.end}`;
+  const response = await request(fetchImpl, segment.url, { signal, headers });
+  onResponse?.(response);
+  if (!response.ok) throw httpError(response, `segment ${segment.url}`);
+
+  if (range && response.status === 206) {
+    const served = parseContentRange(response.headers.get('content-range'));
+    if (served?.start !== range.start || served.end !== range.end) {
+      await response.body?.cancel();
+      throw new DownloadError('http', `Got the wrong byte range for segment ${segment.url}`, response.status);
+    }
+  }
+
+  const bytes = new Uint8Array(await readBody(response, response.arrayBuffer(), signal));
+  if (!range || response.status === 206) return bytes;
+  // The server ignored the Range and sent the whole file; keep the part we asked for.
+  if (bytes.length <= range.end) {
+    throw new DownloadError('http', `Segment ${segment.url} is shorter than its byte range`, response.status);
+  }
+  return bytes.subarray(range.start, range.end + 1);
+};
+
+/**
+ * Downloads every segment of the selected rendition and concatenates them.
+ * Progress is committed a whole segment at a time, so an interrupted
+ * download resumes from the first segment it didn't finish.
+ */
+export const fetchStream = async (
+  selection: StreamSelection,
+  options: FetchStreamOptions = {}
+): Promise<Blob | null> => {
+  const { sink, onProgress, onExtension } = options;
+  const partial = options.partial ?? createPartial(selection.manifestUrl);
+
+  if (partial.url !== selection.manifestUrl || partial.segmentIndex === undefined) {
+    Object.assign(partial, createPartial(selection.manifestUrl), { path: partial.path, segmentIndex: 0 });
+    await sink?.reset();
+  }
+
+  const { segments, extension } = await planStream(selection, options);
+  onExtension?.(extension);
+
+  for (let index = partial.segmentIndex!; index < segments.length; index++) {
+    const bytes = await fetchSegment(segments[index], options);
+    if (sink) await sink.write(bytes);
+    else partial.parts.push(bytes);
+    partial.received += bytes.length;
+    partial.segmentIndex = index + 1;
+    partial.total = Math.round((partial.received / partial.segmentIndex) * segments.length);
+    onProgress?.(partial.received, partial.total);
+  }
+
+  partial.total = partial.received;
+  return sink ? null : new Blob(partial.parts);
+};
@@ -0,0 +1,96 @@
+import { createServer, type IncomingHttpHeaders, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface ServedFile {
+  body: Uint8Array | string;
+  etag?: string;
+  contentType?: string;
+}
+
+/**
+ * A local file server for tests. It honours Range and If-Range the way a
+ * well-behaved host does, with switches for the ways real ones don't.
+ */
+export interface FileServer {
+  url: (path: string) => string;
+  /** Keyed by path, e.g. "/video/index.m3u8". */
+  files: Map<string, ServedFile>;
+  /** Every request so far, in order. */
+  requests: { path: string; headers: IncomingHttpHeaders }[];
+  /** Answer range requests with the whole file, as a host without range support does. */
+  ignoreRanges: boolean;
+  /** Close the connection after this many bytes of the next full response. */
+  dropAfter: number;
+  /** Forgets the files, requests and switches between tests. */
+  reset: () => void;
+  close: () => Promise<void>;
+}
+
+const bytesOf = (body: Uint8Array | string) => (typeof body === 'string' ? new TextEncoder().encode(body) : body);
+
+export const startFileServer = async (): Promise<FileServer> => {
+  const serve = (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    fileServer.requests.push({ path, headers: req.headers });
+    const file = fileServer.files.get(path);
+    if (!file) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const body = bytesOf(file.body);
+    const headers: Record<string, string> = { 'accept-ranges': 'bytes' };
+    if (file.etag) headers.etag = file.etag;
+    headers['content-type'] = file.contentType ?? 'application/octet-stream';
+
+    const range = req.headers.range?.match(/^bytes=(\d+)-(\d*)$/);
+    const ifRange = req.headers['if-range'];
+    if (range && !fileServer.ignoreRanges && (!ifRange || ifRange === file.etag)) {
+      const start = Number(range[1]);
+      const end = Math.min(range[2] ? Number(range[2]) : body.length - 1, body.length - 1);
+      if (start >= body.length) {
+        res.writeHead(416, { 'content-range': `bytes */${body.length}` }).end();
+        return;
+      }
+      res.writeHead(206, {
+        ...headers,
+        'content-range': `bytes ${start}-${end}/${body.length}`,
+        'content-length': end - start + 1,
+      });
+      res.end(body.subarray(start, end + 1));
+      return;
+    }
+
+    res.writeHead(200, { ...headers, 'content-length': body.length });
+    if (fileServer.dropAfter > 0) {
+      res.write(body.subarray(0, fileServer.dropAfter));
+      fileServer.dropAfter = 0;
+      setTimeout(() => res.socket?.destroy(), 50);
+      return;
+    }
+    res.end(body);
+  };
+
+  const server = createServer(serve);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const fileServer: FileServer = {
+    url: path => `${origin}${path}`,
+    files: new Map(),
+    requests: [],
+    ignoreRanges: false,
+    dropAfter: 0,
+    reset: () => {
+      fileServer.files.clear();
+      fileServer.requests = [];
+      fileServer.ignoreRanges = false;
+      fileServer.dropAfter = 0;
+    },
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    },
+  };
+  return fileServer;
+};
@@ -0,0 +1,231 @@
+// Minimal streaming ZIP writer. Entries are stored uncompressed (media is
+// already compressed) and sizes/CRCs go in data descriptors, so each entry is
+// written as its bytes arrive without being buffered. ZIP64 records are added
+// only when a size or offset outgrows 32 bits.
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array, previous = 0): number => {
+  let crc = previous ^ MAX_32;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ MAX_32) >>> 0;
+};
+
+const encoder = new TextEncoder();
+
+const setUint64 = (view: DataView, offset: number, value: number) => {
+  view.setUint32(offset, value >>> 0, true);
+  view.setUint32(offset + 4, Math.floor(value / 2 ** 32), true);
+};
+
+const dosDateTime = (date: Date) => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+/** Strips path tricks so an entry can't escape the folder it's extracted to. */
+export const safeEntryName = (name: string): string =>
+  name
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .join('/') || 'file';
+
+interface CentralRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+export interface ZipEntryOptions {
+  lastModified?: Date;
+  /** Sees every chunk as it is written, e.g. for hashing or progress. */
+  onChunk?: (chunk: Uint8Array) => void;
+}
+
+export interface ZipEntryResult {
+  size: number;
+  crc32: number;
+}
+
+export class ZipWriter {
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private offset = 0;
+  private records: CentralRecord[] = [];
+
+  constructor(sink: WritableStream<Uint8Array>) {
+    this.writer = sink.getWriter();
+  }
+
+  async add(
+    name: string,
+    source: ReadableStream<Uint8Array> | Uint8Array,
+    options: ZipEntryOptions = {}
+  ): Promise<ZipEntryResult> {
+    const encodedName = encoder.encode(safeEntryName(name));
+    const { time, date } = dosDateTime(options.lastModified ?? new Date());
+    const offset = this.offset;
+
+    const header = new Uint8Array(30 + encodedName.length);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, 0x04034b50, true);
+    view.setUint16(4, 20, true);
+    view.setUint16(6, 0x0808, true); // data descriptor follows, UTF-8 names
+    view.setUint16(8, 0, true); // stored
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint16(26, encodedName.length, true);
+    header.set(encodedName, 30);
+    await this.write(header);
+
+    let crc = 0;
+    let size = 0;
+    const consume = async (chunk: Uint8Array) => {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+      options.onChunk?.(chunk);
+      await this.write(chunk);
+    };
+
+    // If the source fails midway the entry is still closed off, so the archive
+    // stays readable; the caller decides what to do about the short file.
+    let sourceError: unknown = null;
+    try {
+      if (source instanceof Uint8Array) {
+        await consume(source);
+      } else {
+        const reader = source.getReader();
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          await consume(value);
+        }
+      }
+    } catch (error) {
+      sourceError = error;
+    }
+
+    const zip64 = size >= MAX_32;
+    const descriptor = new Uint8Array(zip64 ? 24 : 16);
+    const descriptorView = new DataView(descriptor.buffer);
+    descriptorView.setUint32(0, 0x08074b50, true);
+    descriptorView.setUint32(4, crc, true);
+    if (zip64) {
+      setUint64(descriptorView, 8, size);
+      setUint64(descriptorView, 16, size);
+    } else {
+      descriptorView.setUint32(8, size, true);
+      descriptorView.setUint32(12, size, true);
+    }
+    await this.write(descriptor);
+
+    this.records.push({ name: encodedName, crc, size, offset, time, date });
+    if (sourceError) throw sourceError;
+    return { size, crc32: crc };
+  }
+
+  /** Writes the central directory and closes the underlying stream. */
+  async close() {
+    const directoryOffset = this.offset;
+
+    for (const record of this.records) {
+      const sizeOverflow = record.size >= MAX_32;
+      const offsetOverflow = record.offset >= MAX_32;
+      const extraLength = sizeOverflow || offsetOverflow
+        ? 4 + (sizeOverflow ? 16 : 0) + (offsetOverflow ? 8 : 0)
+        : 0;
+
+      const entry = new Uint8Array(46 + record.name.length + extraLength);
+      const view = new DataView(entry.buffer);
+      view.setUint32(0, 0x02014b50, true);
+      view.setUint16(4, 45, true);
+      view.setUint16(6, extraLength ? 45 : 20, true);
+      view.setUint16(8, 0x0808, true);
+      view.setUint16(10, 0, true);
+      view.setUint16(12, record.time, true);
+      view.setUint16(14, record.date, true);
+      view.setUint32(16, record.crc, true);
+      view.setUint32(20, sizeOverflow ? MAX_32 : record.size, true);
+      view.setUint32(24, sizeOverflow ? MAX_32 : record.size, true);
+      view.setUint16(28, record.name.length, true);
+      view.setUint16(30, extraLength, true);
+      view.setUint32(42, offsetOverflow ? MAX_32 : record.offset, true);
+      entry.set(record.name, 46);
+
+      if (extraLength) {
+        let cursor = 46 + record.name.length;
+        view.setUint16(cursor, 0x0001, true);
+        view.setUint16(cursor + 2, extraLength - 4, true);
+        cursor += 4;
+        if (sizeOverflow) {
+          setUint64(view, cursor, record.size);
+          setUint64(view, cursor + 8, record.size);
+          cursor += 16;
+        }
+        if (offsetOverflow) setUint64(view, cursor, record.offset);
+      }
+
+      await this.write(entry);
+    }
+
+    const directorySize = this.offset - directoryOffset;
+    const count = this.records.length;
+    const needsZip64 = count >= MAX_16 || directoryOffset >= MAX_32 || directorySize >= MAX_32;
+
+    if (needsZip64) {
+      const zip64EndOffset = this.offset;
+      const end64 = new Uint8Array(56 + 20);
+      const view = new DataView(end64.buffer);
+      view.setUint32(0, 0x06064b50, true);
+      setUint64(view, 4, 44);
+      view.setUint16(12, 45, true);
+      view.setUint16(14, 45, true);
+      setUint64(view, 24, count);
+      setUint64(view, 32, count);
+      setUint64(view, 40, directorySize);
+      setUint64(view, 48, directoryOffset);
+      // Locator pointing back at the record above.
+      view.setUint32(56, 0x07064b50, true);
+      setUint64(view, 64, zip64EndOffset);
+      view.setUint32(72, 1, true);
+      await this.write(end64);
+    }
+
+    const end = new Uint8Array(22);
+    const view = new DataView(end.buffer);
+    view.setUint32(0, 0x06054b50, true);
+    view.setUint16(8, Math.min(count, MAX_16), true);
+    view.setUint16(10, Math.min(count, MAX_16), true);
+    view.setUint32(12, Math.min(directorySize, MAX_32), true);
+    view.setUint32(16, Math.min(directoryOffset, MAX_32), true);
+    await this.write(end);
+
+    await this.writer.close();
+  }
+
+  async abort(reason?: unknown) {
+    await this.writer.abort(reason);
+  }
+
+  private async write(chunk: Uint8Array) {
+    await this.writer.write(chunk);
+    this.offset += chunk.length;
+  }
+}
@@ -0,0 +1,103 @@
+import type { StreamSelection } from './lib/stream';
+import type { DownloadFailure } from './lib/errors';
+import type { ProxyMode } from './lib/proxy';
+import type { ImageOutput } from './lib/imageOutput';
+import type { HostPolicy } from './lib/hostPolicy';
+
+export type MediaType = 'image' | 'video' | 'audio' | 'other';
+
+export type MediaStatus =
+  | 'pending'
+  | 'queued'
+  | 'downloading'
+  | 'paused'
+  | 'completed'
+  | 'cancelled'
+  | 'error'
+  /** Downloaded, but the bytes didn't match the expected checksum. */
+  | 'mismatch';
+
+export interface MediaItem {
+  id: string;
+  url: string;
+  type: MediaType;
+  filename: string;
+  /** When the item was queued, in ms; {date} in filename templates renders it. */
+  addedAt?: number;
+  /** Set once the user renames the item, so templates leave it alone. */
+  filenameEdited?: boolean;
+  mime?: string;
+  /** Total bytes, once the server or the finished download has told us. */
+  size?: number;
+  status: MediaStatus;
+  /** Percent done; only set while the total is known. */
+  progress?: number;
+  /** Bytes received so far. */
+  received?: number;
+  /** Bytes per second and seconds left, while downloading. */
+  speed?: number;
+  eta?: number;
+  downloadUrl?: string;
+  attempts?: number;
+  nextRetryAt?: number;
+  /** Set for HLS/DASH items: which rendition of `url` to download. */
+  stream?: StreamSelection;
+  /** Checksum the user expects, in any form parseChecksum accepts. */
+  expectedChecksum?: string;
+  /** Overrides the queue's image output settings for this item. */
+  imageOutput?: ImageOutput;
+  /** Hex SHA-256 of the downloaded bytes. */
+  sha256?: string;
+  /** Filename of an earlier download with the same SHA-256. */
+  duplicateOf?: string;
+  /** Why the download couldn't be verified, when a server checksum didn't match but was kept. */
+  checksumWarning?: string;
+  /** Why the latest attempt failed; set while status is error or mismatch. */
+  failure?: DownloadFailure;
+}
+
+export type HistoryStatus = 'completed' | 'error' | 'cancelled' | 'mismatch';
+
+export interface DownloadHistory {
+  id: string;
+  filename: string;
+  url: string;
+  type: MediaType;
+  downloadedAt: Date;
+  /** Folder path, archive name or "Browser downloads". */
+  savedTo?: string;
+  /** Bytes received. */
+  size?: number;
+  /** Milliseconds from the first attempt starting to the final outcome. */
+  duration?: number;
+  /** Missing on entries recorded before statuses were tracked. */
+  status?: HistoryStatus;
+  sha256?: string;
+  duplicateOf?: string;
+  /** Failure reason for error and mismatch entries. */
+  error?: string;
+  /** The rendition downloaded, for HLS/DASH entries. */
+  stream?: StreamSelection;
+}
+
+export type DuplicateAction = 'flag' | 'skip';
+
+export interface Settings {
+  concurrency: number;
+  maxRetries: number;
+  zipManifest: boolean;
+  filenameTemplate: string;
+  /** Number of history entries to keep; 0 keeps everything. */
+  historyLimit: number;
+  /** What to do with a download whose SHA-256 we've already seen. */
+  duplicates: DuplicateAction;
+  /** When to route requests through the companion proxy. */
+  proxyMode: ProxyMode;
+  proxyUrl: string;
+  /** Remove EXIF (including GPS) and similar metadata from images before saving. */
+  stripMetadata: boolean;
+  /** Format and size every downloaded image is converted to. */
+  imageOutput: ImageOutput;
+  /** Per-host connection limits, pacing and what may be downloaded. */
+  hostPolicies: HostPolicy[];
+}
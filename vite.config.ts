@@ -1,9 +1,44 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createProxyHandler, loadProxyConfig } from './server/proxy';
+
+// Serves the download proxy at /proxy alongside the dev server.
+const mediadropProxy = (): Plugin => ({
+  name: 'mediadrop-proxy',
+  configureServer(server) {
+    const handle = createProxyHandler(loadProxyConfig());
+    server.middlewares.use('/proxy', (req, res) => {
+      handle(req, res);
+    });
+  },
+});
+
+const SW_BUILD_PLACEHOLDER = "const BUILD = { version: 'dev', assets: [] };";
+
+// Writes the built files and a version derived from them into the copy of
+// public/sw.js in the output, so the service worker pre-caches this build.
+const serviceWorkerPrecache = (): Plugin => ({
+  name: 'mediadrop-sw-precache',
+  apply: 'build',
+  writeBundle(options, bundle) {
+    const assets = Object.keys(bundle)
+      .filter(name => name !== 'index.html' && !name.endsWith('.map'))
+      .sort()
+      .map(name => `/${name}`);
+    const version = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12);
+    const file = join(options.dir ?? 'dist', 'sw.js');
+    const source = readFileSync(file, 'utf8');
+    if (!source.includes(SW_BUILD_PLACEHOLDER)) this.error(`${file} has no build placeholder to fill in`);
+    writeFileSync(file, source.replace(SW_BUILD_PLACEHOLDER, `const BUILD = ${JSON.stringify({ version, assets })};`));
+  },
+});
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), mediadropProxy(), serviceWorkerPrecache()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },